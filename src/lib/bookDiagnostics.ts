@@ -0,0 +1,58 @@
+import type { DiagnosticsReport, IntegrityIssue, IntegrityIssueKind, SnapshotView } from './types';
+
+/// Integrity counters for a live book. Issues are counted by kind and the most
+/// recent few are kept verbatim, so a misbehaving feed is visible without
+/// flooding the main thread with every offending diff.
+
+const MAX_RECENT = 20;
+
+function emptyCounts(): Record<IntegrityIssueKind, number> {
+  return { crossedBook: 0, invalidOrder: 0, unknownRemove: 0, duplicateOpen: 0, unknownStatus: 0, missingHeight: 0 };
+}
+
+export function createBookDiagnostics() {
+  let counts = emptyCounts();
+  let recent: IntegrityIssue[] = [];
+  let crossed = false;
+  let changed = false;
+
+  function record(kind: IntegrityIssueKind, height: number, detail: string, oid?: number) {
+    counts[kind]++;
+    recent.unshift({ kind, height, time: Date.now(), oid, detail });
+    if (recent.length > MAX_RECENT) recent.length = MAX_RECENT;
+    changed = true;
+  }
+
+  return {
+    record,
+
+    /** Note a crossed book once per episode rather than on every rebuild. */
+    checkCrossed(view: SnapshotView) {
+      const bestBid = view.bids.prices[0];
+      const bestAsk = view.asks.prices[0];
+      const nowCrossed = bestBid !== undefined && bestAsk !== undefined && bestBid >= bestAsk;
+      if (nowCrossed && !crossed) {
+        record('crossedBook', view.meta.height, `best bid ${bestBid} >= best ask ${bestAsk}`);
+      }
+      if (nowCrossed !== crossed) changed = true;
+      crossed = nowCrossed;
+    },
+
+    /** True if anything changed since the last report(). */
+    get changed() {
+      return changed;
+    },
+
+    report(): DiagnosticsReport {
+      changed = false;
+      return { counts: { ...counts }, recent: recent.slice(), crossed };
+    },
+
+    reset() {
+      counts = emptyCounts();
+      recent = [];
+      crossed = false;
+      changed = true;
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { FlowSample, SnapshotView } from './types';
+import type { EngineOrderEvent } from './l4BookEngine';
+
+/// Book-pressure signals, sampled by the worker on every rebuild: depth
+/// imbalance inside a few bps bands around mid, the microprice, and the net
+/// size added minus canceled on each side since the previous sample. Fills
+/// take liquidity but aren't a maker's decision, so they don't count as
+/// cancels here.
+
+export const IMBALANCE_BANDS_BPS = [5, 10, 25, 50];
+
+export function createFlowAccumulator() {
+  let bid = 0;
+  let ask = 0;
+
+  function add(side: number, size: number) {
+    if (side === 0) bid += size;
+    else ask += size;
+  }
+
+  return {
+    /** Record one engine event (placements, modifications and cancels; fills and size reductions, which may be fills, are ignored). */
+    record(ev: EngineOrderEvent) {
+      switch (ev.kind) {
+        case 'placed':
+          add(ev.order.side, ev.order.size);
+          break;
+        case 'modified':
+          // A modify can move the order to another price or even side
+          if (ev.prev) add(ev.prev.side, -ev.prev.size);
+          add(ev.order.side, ev.order.size);
+          break;
+        case 'canceled':
+          add(ev.order.side, -ev.order.size);
+          break;
+      }
+    },
+
+    /** Net added size per side since the last take. */
+    take(): { bid: number; ask: number } {
+      const out = { bid, ask };
+      bid = 0;
+      ask = 0;
+      return out;
+    },
+
+    reset() {
+      bid = 0;
+      ask = 0;
+    },
+  };
+}
+
+/**
+ * Sample the book's pressure signals. `netAdded` is the accumulator's take()
+ * for the same rebuild. Returns null while either side of the book is empty.
+ */
+export function computeFlowSample(view: SnapshotView, netAdded: { bid: number; ask: number }): FlowSample | null {
+  const { bids, asks } = view;
+  if (bids.prices.length === 0 || asks.prices.length === 0) return null;
+
+  const bestBid = bids.prices[0];
+  const bestAsk = asks.prices[0];
+  const bidTop = bids.sizes[0];
+  const askTop = asks.sizes[0];
+  const mid = (bestBid + bestAsk) / 2;
+  // Weighted toward the side with less size: that's where the next trade is likelier to go
+  const microprice = bidTop + askTop > 0 ? (bestBid * askTop + bestAsk * bidTop) / (bidTop + askTop) : mid;
+
+  const imbalance = IMBALANCE_BANDS_BPS.map((bps) => {
+    const bidDepth = depthWithin(bids.prices, bids.sizes, mid * (1 - bps / 10_000), -1);
+    const askDepth = depthWithin(asks.prices, asks.sizes, mid * (1 + bps / 10_000), 1);
+    const total = bidDepth + askDepth;
+    return total > 0 ? (bidDepth - askDepth) / total : 0;
+  });
+
+  return { time: view.meta.time, mid, microprice, imbalance, netAddedBid: netAdded.bid, netAddedAsk: netAdded.ask };
+}
+
+// Levels run from the touch outward; `dir` is -1 for bids (prices fall), 1 for asks
+function depthWithin(prices: Float64Array, sizes: Float64Array, limit: number, dir: number): number {
+  let depth = 0;
+  for (let i = 0; i < prices.length; i++) {
+    if ((prices[i] - limit) * dir > 0) break;
+    depth += sizes[i];
+  }
+  return depth;
+}
@@ -4,14 +4,37 @@ import type {
   StreamMetrics,
   ConnectionStatus,
   BookWorkerOutMessage,
+  RecordingProgress,
+  RecordingSession,
+  ReplayState,
+  FileParseProgress,
+  SnapshotMeta,
+  DiagnosticsReport,
+  Trade,
+  FlowSample,
+  OrderHistory,
+  LifecycleStats,
+  RefillReport,
+  SpoofCandidate,
 } from './types';
 
 export type BookWorkerCallbacks = {
   onStatus: (status: ConnectionStatus, message?: string) => void;
   onSnapshot: (data: SnapshotView, metrics: StreamMetrics) => void;
-  onUpdate: (data: SnapshotView, metrics: StreamMetrics) => void;
+  onUpdate: (data: SnapshotView, metrics: StreamMetrics, trades: Trade[], flow: FlowSample | null) => void;
   onFileResult: (data: SnapshotView, metrics: ParseMetrics) => void;
   onFileError: (error: string) => void;
+  onFileProgress?: (progress: FileParseProgress) => void;
+  onRecording?: (progress: RecordingProgress) => void;
+  onRecordingSessions?: (sessions: RecordingSession[]) => void;
+  onRecordingExport?: (session: RecordingSession, blob: Blob) => void;
+  onReplayState?: (state: ReplayState) => void;
+  onSnapshotExport?: (meta: SnapshotMeta, blob: Blob) => void;
+  onDiagnostics?: (report: DiagnosticsReport) => void;
+  onOrderHistory?: (oid: number, history: OrderHistory | null) => void;
+  onLifecycleStats?: (stats: LifecycleStats) => void;
+  onRefills?: (report: RefillReport) => void;
+  onSpoofCandidates?: (events: SpoofCandidate[], reset: boolean) => void;
 };
 
 export function createBookWorkerClient(callbacks: BookWorkerCallbacks) {
@@ -30,14 +53,47 @@ export function createBookWorkerClient(callbacks: BookWorkerCallbacks) {
         callbacks.onSnapshot(msg.data, msg.metrics);
         break;
       case 'update':
-        callbacks.onUpdate(msg.data, msg.metrics);
+        callbacks.onUpdate(msg.data, msg.metrics, msg.trades, msg.flow);
         break;
       case 'fileResult':
         callbacks.onFileResult(msg.data, msg.metrics);
         break;
+      case 'fileProgress':
+        callbacks.onFileProgress?.(msg.progress);
+        break;
       case 'fileError':
         callbacks.onFileError(msg.error);
         break;
+      case 'recording':
+        callbacks.onRecording?.(msg.progress);
+        break;
+      case 'recordingSessions':
+        callbacks.onRecordingSessions?.(msg.sessions);
+        break;
+      case 'recordingExport':
+        callbacks.onRecordingExport?.(msg.session, msg.blob);
+        break;
+      case 'replayState':
+        callbacks.onReplayState?.(msg.state);
+        break;
+      case 'snapshotExport':
+        callbacks.onSnapshotExport?.(msg.meta, msg.blob);
+        break;
+      case 'diagnostics':
+        callbacks.onDiagnostics?.(msg.report);
+        break;
+      case 'orderHistory':
+        callbacks.onOrderHistory?.(msg.oid, msg.history);
+        break;
+      case 'lifecycleStats':
+        callbacks.onLifecycleStats?.(msg.stats);
+        break;
+      case 'refills':
+        callbacks.onRefills?.(msg.report);
+        break;
+      case 'spoofCandidates':
+        callbacks.onSpoofCandidates?.(msg.events, msg.reset);
+        break;
     }
   };
 
@@ -58,8 +114,59 @@ export function createBookWorkerClient(callbacks: BookWorkerCallbacks) {
       worker.postMessage({ type: 'setRebuildInterval', intervalMs });
     },
 
-    parseFile(buffer: ArrayBuffer, fileSize: number) {
-      worker.postMessage({ type: 'parseFile', buffer, fileSize }, [buffer]);
+    /** Hand a File/Blob to the worker, which streams and parses it incrementally. */
+    parseFile(file: Blob, fileSize: number) {
+      worker.postMessage({ type: 'parseFile', file, fileSize });
+    },
+
+    setRecording(enabled: boolean) {
+      worker.postMessage({ type: 'setRecording', enabled });
+    },
+
+    listRecordings() {
+      worker.postMessage({ type: 'listRecordings' });
+    },
+
+    exportRecording(sessionId: number) {
+      worker.postMessage({ type: 'exportRecording', sessionId });
+    },
+
+    deleteRecording(sessionId: number) {
+      worker.postMessage({ type: 'deleteRecording', sessionId });
+    },
+
+    /** Ask the worker to serialize the current book as an l4Book Snapshot file. */
+    exportSnapshot() {
+      worker.postMessage({ type: 'exportSnapshot' });
+    },
+
+    loadReplay(buffer: ArrayBuffer, fileSize: number) {
+      worker.postMessage({ type: 'loadReplay', buffer, fileSize }, [buffer]);
+    },
+
+    replayPlay() {
+      worker.postMessage({ type: 'replayPlay' });
+    },
+
+    replayPause() {
+      worker.postMessage({ type: 'replayPause' });
+    },
+
+    replayStep() {
+      worker.postMessage({ type: 'replayStep' });
+    },
+
+    replaySeek(height: number) {
+      worker.postMessage({ type: 'replaySeek', height });
+    },
+
+    replaySetSpeed(speed: number) {
+      worker.postMessage({ type: 'replaySetSpeed', speed });
+    },
+
+    /** Follow one order's lifecycle; the worker re-posts its history on every event. */
+    watchOrder(oid: number | null) {
+      worker.postMessage({ type: 'watchOrder', oid });
     },
 
     destroy() {
@@ -0,0 +1,153 @@
+import type { HeatmapData, SideData } from './types';
+import type { DepthBandSample } from './depthBands';
+
+/// CSV builders for the tabular exports. Pure functions over the view arrays
+/// so they can run in a worker; output is plain RFC 4180 CSV with a header row,
+/// ready for `pandas.read_csv`.
+
+export type CsvResult = {
+  blob: Blob;
+  rows: number;
+};
+
+// Rows are joined in batches so huge books don't build one giant string
+const BATCH_ROWS = 10_000;
+
+/** Number of decimals needed to print prices on a tick grid (0.25 → 2, 1 → 0). */
+export function tickDecimals(tickSize: number): number {
+  const [mantissa, exponent] = String(tickSize).split('e');
+  const fraction = mantissa.split('.')[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exponent ?? 0));
+}
+
+// Float32 sizes carry ~7 significant digits; drop the float noise beyond that
+function f32(x: number): string {
+  return String(+x.toPrecision(7));
+}
+
+// Float64 sums accumulate rounding error; 12 significant digits is plenty
+function f64(x: number): string {
+  return String(+x.toPrecision(12));
+}
+
+function finish(lines: string[], parts: string[], rows: number): CsvResult {
+  if (lines.length > 0) parts.push(lines.join('\n') + '\n');
+  return { blob: new Blob(parts, { type: 'text/csv' }), rows };
+}
+
+/**
+ * Every heatmap order whose (possibly regrouped) price lies in [priceMin, priceMax].
+ * The heatmap only keeps the bucket price at its tickSize, so the price and
+ * notional columns are named for it; yOffset is the stacking offset within
+ * that bucket, so the table matches what the heatmap draws.
+ */
+export function ordersCsv(data: HeatmapData, priceMin: number, priceMax: number): CsvResult {
+  const decimals = tickDecimals(data.tickSize);
+  const parts = ['bucket_price,size,side,timestamp,user,y_offset,bucket_notional\n'];
+  let lines: string[] = [];
+  let rows = 0;
+
+  for (let i = 0; i < data.count; i++) {
+    const price = data.prices[i];
+    if (price < priceMin || price > priceMax) continue;
+    const priceText = price.toFixed(decimals);
+    const sizeText = f32(data.sizes[i]);
+    lines.push([
+      priceText,
+      sizeText,
+      data.sides[i] === 0 ? 'bid' : 'ask',
+      data.timestamps[i],
+      data.users[i] ?? '',
+      f32(data.yOffsets[i]),
+      f64(Number(priceText) * Number(sizeText)),
+    ].join(','));
+    rows++;
+    if (lines.length >= BATCH_ROWS) {
+      parts.push(lines.join('\n') + '\n');
+      lines = [];
+    }
+  }
+  return finish(lines, parts, rows);
+}
+
+/**
+ * Aggregated price levels regrouped to tickSize (bids floor, asks ceil — the
+ * same snapping as regroupHeatmap), with cumulative size and notional measured
+ * from the touch. Only levels inside [priceMin, priceMax] are written, but the
+ * cumulative columns still count the levels between them and the spread.
+ */
+export function levelsCsv(
+  bids: SideData,
+  asks: SideData,
+  tickSize: number,
+  priceMin: number,
+  priceMax: number,
+): CsvResult {
+  const decimals = tickDecimals(tickSize);
+  const parts = ['side,price,size,notional,cum_size,cum_notional,levels\n'];
+  let lines: string[] = [];
+  let rows = 0;
+
+  const writeSide = (side: SideData, label: string, snap: (p: number) => number) => {
+    let cumSize = 0;
+    let cumNotional = 0;
+    let i = 0;
+    // Levels arrive best-first, so each bucket is a contiguous run
+    while (i < side.prices.length) {
+      const bucket = snap(side.prices[i]);
+      let size = 0;
+      let notional = 0;
+      let levels = 0;
+      while (i < side.prices.length && snap(side.prices[i]) === bucket) {
+        size += side.sizes[i];
+        notional += side.prices[i] * side.sizes[i];
+        levels++;
+        i++;
+      }
+      cumSize += size;
+      cumNotional += notional;
+      if (bucket < priceMin || bucket > priceMax) continue;
+      lines.push([label, bucket.toFixed(decimals), f64(size), f64(notional), f64(cumSize), f64(cumNotional), levels].join(','));
+      rows++;
+      if (lines.length >= BATCH_ROWS) {
+        parts.push(lines.join('\n') + '\n');
+        lines = [];
+      }
+    }
+  };
+
+  writeSide(bids, 'bid', (p) => Math.floor(p / tickSize + 1e-9) * tickSize);
+  writeSide(asks, 'ask', (p) => Math.ceil(p / tickSize - 1e-9) * tickSize);
+  return finish(lines, parts, rows);
+}
+
+/**
+ * Depth-band history, one row per sample and band, oldest first. The coin is
+ * a column so files from several coins or providers concatenate cleanly.
+ */
+export function depthBandsCsv(coin: string, samples: DepthBandSample[]): CsvResult {
+  const parts = ['coin,time,band_bps,bid_size,ask_size,bid_notional,ask_notional,total_notional\n'];
+  let lines: string[] = [];
+  let rows = 0;
+
+  for (const sample of samples) {
+    for (const b of sample.bands) {
+      lines.push([
+        coin,
+        sample.time,
+        b.bps,
+        f64(b.bidSize),
+        f64(b.askSize),
+        f64(b.bidNotional),
+        f64(b.askNotional),
+        f64(b.bidNotional + b.askNotional),
+      ].join(','));
+      rows++;
+    }
+    if (lines.length >= BATCH_ROWS) {
+      parts.push(lines.join('\n') + '\n');
+      lines = [];
+    }
+  }
+  return finish(lines, parts, rows);
+}
@@ -0,0 +1,71 @@
+import type { SideData, SnapshotView } from './types';
+
+/// Resting depth within fixed bps bands of mid — the standard liquidity
+/// metric that compares across coins and providers. Bands are cumulative
+/// (±25 bps includes ±10), measured from mid on each side.
+
+export const DEFAULT_DEPTH_BANDS = [5, 10, 25, 50, 100, 200];
+const MAX_BANDS = 12;
+
+export type DepthBand = {
+  bps: number;
+  bidSize: number;
+  askSize: number;
+  bidNotional: number;
+  askNotional: number;
+};
+
+export type DepthBandSample = {
+  time: number;              // ms — book time
+  bands: DepthBand[];        // same order as the configured bands
+};
+
+/** Depth inside each band (ascending bps). Empty when either side of the book is empty. */
+export function measureDepthBands(view: Pick<SnapshotView, 'bids' | 'asks'>, bands: number[]): DepthBand[] {
+  const { bids, asks } = view;
+  if (bids.prices.length === 0 || asks.prices.length === 0) return [];
+  const mid = (bids.prices[0] + asks.prices[0]) / 2;
+  const bid = accumulate(bids, bands.map((bps) => mid * (1 - bps / 10_000)), -1);
+  const ask = accumulate(asks, bands.map((bps) => mid * (1 + bps / 10_000)), 1);
+  return bands.map((bps, b) => ({
+    bps,
+    bidSize: bid.sizes[b],
+    askSize: ask.sizes[b],
+    bidNotional: bid.notionals[b],
+    askNotional: ask.notionals[b],
+  }));
+}
+
+// One walk from the touch outward; limits are ordered nearest first and
+// `dir` is -1 for bids (prices fall), 1 for asks
+function accumulate(side: SideData, limits: number[], dir: number) {
+  const sizes = new Array<number>(limits.length).fill(0);
+  const notionals = new Array<number>(limits.length).fill(0);
+  let size = 0;
+  let notional = 0;
+  let b = 0;
+  for (let i = 0; i < side.prices.length && b < limits.length; i++) {
+    const price = side.prices[i];
+    while (b < limits.length && (price - limits[b]) * dir > 0) {
+      sizes[b] = size;
+      notionals[b] = notional;
+      b++;
+    }
+    size += side.sizes[i];
+    notional += side.sizes[i] * price;
+  }
+  for (; b < limits.length; b++) {
+    sizes[b] = size;
+    notionals[b] = notional;
+  }
+  return { sizes, notionals };
+}
+
+/** Parse a band list like "5, 10, 25"; null if any entry isn't a positive number. Sorted and deduplicated. */
+export function parseBands(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter((p) => p !== '');
+  if (parts.length === 0 || parts.length > MAX_BANDS) return null;
+  const bands = parts.map(Number);
+  if (bands.some((b) => !(b > 0) || !Number.isFinite(b))) return null;
+  return [...new Set(bands)].sort((a, b) => a - b);
+}
@@ -1,4 +1,38 @@
 import type { SideData } from './types';
+import type { SweepResult } from './slippage';
+import { fmtNotional, fmtPrice, fmtSize } from './format';
+
+export type DepthUnit = 'size' | 'notional';
+export type DepthScale = 'linear' | 'log';
+
+export type DepthChartOptions = {
+  unit: DepthUnit;           // y axis: cumulative base size or USD notional
+  scale: DepthScale;
+};
+
+// Log scale spans at most this many decades below the visible peak
+const LOG_DECADES = 4;
+
+// Running notional from the touch, parallel to cumSizes
+function cumNotionals(side: SideData): Float64Array {
+  const out = new Float64Array(side.prices.length);
+  let sum = 0;
+  for (let i = 0; i < side.prices.length; i++) {
+    sum += side.prices[i] * side.sizes[i];
+    out[i] = sum;
+  }
+  return out;
+}
+
+// Cumulative value out to `price` on a side walked from the touch (`dir` -1 for bids, 1 for asks)
+function cumAt(side: SideData, cum: ArrayLike<number>, price: number, dir: number): number {
+  let value = 0;
+  for (let i = 0; i < side.prices.length; i++) {
+    if ((side.prices[i] - price) * dir > 0) break;
+    value = cum[i];
+  }
+  return value;
+}
 
 export function renderDepthChart(
   ctx: CanvasRenderingContext2D,
@@ -8,36 +42,53 @@ export function renderDepthChart(
   priceMax: number,
   canvasWidth: number,
   canvasHeight: number,
+  sweep?: SweepResult | null,
+  options: DepthChartOptions = { unit: 'size', scale: 'linear' },
+  mouse?: { x: number; y: number } | null,
 ) {
   ctx.clearRect(0, 0, canvasWidth, canvasHeight);
 
   const priceRange = priceMax - priceMin;
   if (priceRange <= 0) return;
 
-  // Find max cumulative size in visible range for Y scaling
+  const bidNotionals = cumNotionals(bids);
+  const askNotionals = cumNotionals(asks);
+  const bidCum = options.unit === 'size' ? bids.cumSizes : bidNotionals;
+  const askCum = options.unit === 'size' ? asks.cumSizes : askNotionals;
+
+  // Find max cumulative value in visible range for Y scaling, and the
+  // smallest non-zero one as the floor of a log axis
   let maxCum = 0;
+  let minCum = Infinity;
 
-  function findVisibleMax(side: SideData) {
+  function findVisibleMax(side: SideData, cum: ArrayLike<number>) {
     for (let i = 0; i < side.prices.length; i++) {
       if (side.prices[i] >= priceMin && side.prices[i] <= priceMax) {
-        if (side.cumSizes[i] > maxCum) maxCum = side.cumSizes[i];
+        if (cum[i] > maxCum) maxCum = cum[i];
+        if (cum[i] > 0 && cum[i] < minCum) minCum = cum[i];
       }
     }
   }
-  findVisibleMax(bids);
-  findVisibleMax(asks);
+  findVisibleMax(bids, bidCum);
+  findVisibleMax(asks, askCum);
 
   if (maxCum <= 0) return;
 
   const padTop = 8;
   const chartH = canvasHeight - padTop;
+  const log = options.scale === 'log';
+  const logMax = Math.log10(maxCum);
+  const logMin = Math.min(Math.max(Math.log10(minCum), logMax - LOG_DECADES), logMax - 1);
 
   function priceToX(p: number): number {
     return ((p - priceMin) / priceRange) * canvasWidth;
   }
 
   function cumToY(c: number): number {
-    return padTop + chartH - (c / maxCum) * chartH;
+    if (!log) return padTop + chartH - (c / maxCum) * chartH;
+    if (c <= 0) return canvasHeight;
+    const f = (Math.log10(c) - logMin) / (logMax - logMin);
+    return padTop + chartH - Math.max(0, f) * chartH;
   }
 
   // Draw bids (right to left: best bid first, going left)
@@ -48,7 +99,7 @@ export function renderDepthChart(
     const p = bids.prices[i];
     if (p < priceMin || p > priceMax) continue;
     const x = priceToX(p);
-    const y = cumToY(bids.cumSizes[i]);
+    const y = cumToY(bidCum[i]);
     if (!started) {
       // Start from the best bid price at y=bottom (cum=0)
       ctx.moveTo(x, cumToY(0));
@@ -77,7 +128,7 @@ export function renderDepthChart(
     const p = asks.prices[i];
     if (p < priceMin || p > priceMax) continue;
     const x = priceToX(p);
-    const y = cumToY(asks.cumSizes[i]);
+    const y = cumToY(askCum[i]);
     if (!started) {
       ctx.moveTo(x, cumToY(0));
       ctx.lineTo(x, y);
@@ -96,16 +147,100 @@ export function renderDepthChart(
     ctx.stroke();
   }
 
-  // Y-axis labels for cumulative size
+  // Levels a market order would consume, shaded under that side's curve,
+  // with the average fill price dashed
+  if (sweep) {
+    const buy = sweep.side === 'buy';
+    const side = buy ? asks : bids;
+    const cum = buy ? askCum : bidCum;
+    const filled = options.unit === 'size' ? sweep.filledSize : sweep.filledNotional;
+    ctx.beginPath();
+    ctx.moveTo(priceToX(sweep.bestPrice), cumToY(0));
+    for (let i = 0; i < side.prices.length; i++) {
+      // The last level may be only partly consumed
+      ctx.lineTo(priceToX(side.prices[i]), cumToY(Math.min(cum[i], filled)));
+      if (side.prices[i] === sweep.worstPrice) break;
+    }
+    ctx.lineTo(priceToX(sweep.worstPrice), cumToY(0));
+    ctx.closePath();
+    ctx.fillStyle = 'rgba(255, 193, 7, 0.3)';
+    ctx.fill();
+
+    const avgX = priceToX(sweep.avgPrice);
+    ctx.strokeStyle = '#ffc107';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(avgX, padTop);
+    ctx.lineTo(avgX, canvasHeight);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  // Y-axis labels: three even steps on a linear axis, whole decades on a log one
+  const fmtCum = options.unit === 'size'
+    ? (c: number) => (c >= 1000 ? `${(c / 1000).toFixed(1)}k` : c.toFixed(1))
+    : fmtNotional;
+  const yTicks: number[] = [];
+  if (log) for (let e = Math.ceil(logMin); e <= Math.floor(logMax); e++) yTicks.push(10 ** e);
+  else for (let i = 1; i <= 3; i++) yTicks.push((maxCum / 3) * i);
   ctx.font = '15px monospace';
   ctx.fillStyle = '#6b7a8d';
   ctx.textAlign = 'right';
   ctx.textBaseline = 'middle';
-  const yTicks = 3;
-  for (let i = 1; i <= yTicks; i++) {
-    const c = (maxCum / yTicks) * i;
+  for (const c of yTicks) {
     const y = cumToY(c);
-    const label = c >= 1000 ? `${(c / 1000).toFixed(1)}k` : c.toFixed(1);
-    ctx.fillText(label, canvasWidth - 6, y);
+    if (y < padTop || y > canvasHeight) continue;
+    ctx.fillText(fmtCum(c), canvasWidth - 6, y);
   }
+
+  if (!mouse) return;
+
+  // Crosshair with the depth between the touch and the cursor's price
+  ctx.setLineDash([4, 4]);
+  ctx.strokeStyle = 'rgba(197,205,217,0.5)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(mouse.x, 0);
+  ctx.lineTo(mouse.x, canvasHeight);
+  ctx.moveTo(0, mouse.y);
+  ctx.lineTo(canvasWidth, mouse.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  const price = priceMin + (mouse.x / canvasWidth) * priceRange;
+  const bestBid = bids.prices.length > 0 ? bids.prices[0] : 0;
+  const bestAsk = asks.prices.length > 0 ? asks.prices[0] : 0;
+  const mid = bestBid > 0 && bestAsk > 0 ? (bestBid + bestAsk) / 2 : bestBid || bestAsk;
+  const isBid = price <= mid;
+  const side = isBid ? bids : asks;
+  const dir = isBid ? -1 : 1;
+  const size = cumAt(side, side.cumSizes, price, dir);
+  const notional = cumAt(side, isBid ? bidNotionals : askNotionals, price, dir);
+  const bps = mid > 0 ? ((price - mid) / mid) * 10_000 : 0;
+
+  // The chart is short, so the readout is two compact lines rather than the heatmap tooltip
+  const lines = [
+    `$${fmtPrice(price)}  ${bps >= 0 ? '+' : ''}${bps.toFixed(1)} bps`,
+    `${isBid ? 'Bids' : 'Asks'}: ${fmtSize(size)}  ${fmtNotional(notional)}`,
+  ];
+  const lineH = 19;
+  const pad = 6;
+  const w = Math.max(...lines.map((l) => ctx.measureText(l).width)) + pad * 2;
+  const h = lines.length * lineH + pad * 2;
+  let tx = mouse.x + 14;
+  if (tx + w > canvasWidth) tx = mouse.x - w - 14;
+  const ty = Math.max(0, Math.min(mouse.y - h / 2, canvasHeight - h));
+  ctx.fillStyle = 'rgba(17,22,33,0.92)';
+  ctx.strokeStyle = 'rgba(107,122,141,0.4)';
+  ctx.beginPath();
+  ctx.roundRect(tx, ty, w, h, 4);
+  ctx.fill();
+  ctx.stroke();
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = isBid ? '#00c853' : '#ff1744';
+  ctx.fillText(lines[0], tx + pad, ty + pad);
+  ctx.fillStyle = '#c5cdd9';
+  ctx.fillText(lines[1], tx + pad, ty + pad + lineH);
 }
@@ -0,0 +1,17 @@
+/** Trigger a browser download for a Blob without navigating away. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Make a coin name safe for filenames ("xyz:TSLA" → "xyz-TSLA"). */
+export function fileSafeCoin(coin: string): string {
+  return coin.replace(/[^A-Za-z0-9._-]/g, '-');
+}
@@ -0,0 +1,73 @@
+import type { HeatmapData, SideData, ViewRange, ExportWorkerOutMessage } from './types';
+
+// View data may arrive wrapped in Svelte state proxies, which can't be cloned
+// into a worker; copy the containers (typed arrays themselves are never proxied).
+function plainSide(side: SideData): SideData {
+  return { prices: side.prices, sizes: side.sizes, cumSizes: side.cumSizes };
+}
+
+function plainHeatmap(heatmap: HeatmapData): HeatmapData {
+  return { ...heatmap, users: Array.from(heatmap.users) };
+}
+
+export type ExportCallbacks = {
+  onSuccess: (blob: Blob, rows: number) => void;
+  onError: (error: string) => void;
+};
+
+export function createExportClient() {
+  const worker = new Worker(
+    new URL('../workers/exportWorker.ts', import.meta.url),
+    { type: 'module' },
+  );
+
+  let pending: ExportCallbacks | null = null;
+
+  worker.onmessage = (e: MessageEvent<ExportWorkerOutMessage>) => {
+    const cb = pending;
+    pending = null;
+    if (!cb) return;
+
+    if (e.data.type === 'success') {
+      cb.onSuccess(e.data.blob, e.data.rows);
+    } else {
+      cb.onError(e.data.error);
+    }
+  };
+
+  worker.onerror = (err) => {
+    if (pending) {
+      pending.onError(err.message);
+      pending = null;
+    }
+  };
+
+  return {
+    get busy() {
+      return pending !== null;
+    },
+
+    /** Orders whose (regrouped) price falls inside the view range. */
+    exportOrders(heatmap: HeatmapData, range: ViewRange, callbacks: ExportCallbacks) {
+      pending = callbacks;
+      worker.postMessage({ type: 'orders', heatmap: plainHeatmap(heatmap), priceMin: range.priceMin, priceMax: range.priceMax });
+    },
+
+    /** Price levels regrouped to tickSize, with cumulative size from the touch. */
+    exportLevels(bids: SideData, asks: SideData, tickSize: number, range: ViewRange, callbacks: ExportCallbacks) {
+      pending = callbacks;
+      worker.postMessage({
+        type: 'levels',
+        bids: plainSide(bids),
+        asks: plainSide(asks),
+        tickSize,
+        priceMin: range.priceMin,
+        priceMax: range.priceMax,
+      });
+    },
+
+    destroy() {
+      worker.terminate();
+    },
+  };
+}
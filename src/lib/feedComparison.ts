@@ -0,0 +1,150 @@
+import type { ComparisonSummary, FeedDiff, FeedMismatch, HeatmapData, SnapshotView } from './types';
+import { median } from './stats';
+
+/// Compares two feeds of the same coin (e.g. a self-hosted order_book_server
+/// against a paid provider). Views arrive at each worker's rebuild rate, so
+/// the two books are rarely at the same height at the same moment: each feed
+/// keeps its last few views and a diff runs whenever both hold one at an
+/// equal height. Lag is measured from when each feed first showed a height,
+/// so it carries the rebuild interval as noise.
+
+const VIEW_HISTORY = 8;
+const HEIGHT_TIMES = 512;
+const LAG_SAMPLES = 50;
+const DIFF_INTERVAL_MS = 500;
+const MAX_SAMPLES = 8;
+
+export type Feed = 0 | 1;   // 0 = primary, 1 = secondary
+
+/** Diff two books by oid. Orders without an oid (NaN) are ignored. */
+export function diffBooks(primary: HeatmapData, secondary: HeatmapData, height: number): FeedDiff {
+  const secondaryIndex = new Map<number, number>();
+  for (let i = 0; i < secondary.count; i++) {
+    const oid = secondary.oids[i];
+    if (Number.isFinite(oid)) secondaryIndex.set(oid, i);
+  }
+
+  let matched = 0;
+  let onlyPrimary = 0;
+  let sizeMismatches = 0;
+  let seen = 0;
+  const samples: FeedMismatch[] = [];
+  for (let i = 0; i < primary.count; i++) {
+    const oid = primary.oids[i];
+    if (!Number.isFinite(oid)) continue;
+    const j = secondaryIndex.get(oid);
+    if (j === undefined) {
+      onlyPrimary++;
+      continue;
+    }
+    seen++;
+    if (primary.sizes[i] === secondary.sizes[j]) {
+      matched++;
+    } else {
+      sizeMismatches++;
+      if (samples.length < MAX_SAMPLES) {
+        samples.push({ oid, primarySize: primary.sizes[i], secondarySize: secondary.sizes[j] });
+      }
+    }
+  }
+
+  return {
+    height,
+    matched,
+    onlyPrimary,
+    onlySecondary: secondaryIndex.size - seen,
+    sizeMismatches,
+    samples,
+  };
+}
+
+export function createFeedComparison() {
+  const views: [SnapshotView[], SnapshotView[]] = [[], []];
+  // Wall-clock time each feed first showed a height (insertion order = eviction order)
+  const heightTimes: [Map<number, number>, Map<number, number>] = [new Map(), new Map()];
+  let lagSamples: number[] = [];
+  let comparisons = 0;
+  let divergent = 0;
+  let lastDiff: FeedDiff | null = null;
+  let lastDiffAt = -Infinity;
+  let lastComparedHeight = 0;
+
+  function noteHeight(feed: Feed, height: number, now: number) {
+    const times = heightTimes[feed];
+    if (times.has(height)) return;
+    times.set(height, now);
+    if (times.size > HEIGHT_TIMES) times.delete(times.keys().next().value!);
+    if (feed === 1) {
+      const primaryAt = heightTimes[0].get(height);
+      if (primaryAt !== undefined) {
+        lagSamples.push(now - primaryAt);
+        if (lagSamples.length > LAG_SAMPLES) lagSamples.shift();
+      }
+    } else {
+      // Primary behind: record as negative lag
+      const secondaryAt = heightTimes[1].get(height);
+      if (secondaryAt !== undefined) {
+        lagSamples.push(secondaryAt - now);
+        if (lagSamples.length > LAG_SAMPLES) lagSamples.shift();
+      }
+    }
+  }
+
+  function tryDiff(now: number) {
+    if (now - lastDiffAt < DIFF_INTERVAL_MS) return;
+    // Newest height both feeds have a view for
+    for (let i = views[0].length - 1; i >= 0; i--) {
+      const p = views[0][i];
+      if (p.meta.height <= lastComparedHeight) return;
+      const s = views[1].find((v) => v.meta.height === p.meta.height);
+      if (!s) continue;
+      lastDiff = diffBooks(p.heatmap, s.heatmap, p.meta.height);
+      lastDiffAt = now;
+      lastComparedHeight = p.meta.height;
+      comparisons++;
+      if (lastDiff.onlyPrimary + lastDiff.onlySecondary + lastDiff.sizeMismatches > 0) divergent++;
+      return;
+    }
+  }
+
+  return {
+    /** Feed a view from either worker (snapshot or update). */
+    push(feed: Feed, view: SnapshotView) {
+      const now = performance.now();
+      const list = views[feed];
+      // A resync snapshot can rewind the height; drop views that are now ahead of it
+      while (list.length > 0 && list[list.length - 1].meta.height > view.meta.height) list.pop();
+      list.push(view);
+      if (list.length > VIEW_HISTORY) list.shift();
+      noteHeight(feed, view.meta.height, now);
+      tryDiff(now);
+    },
+
+    summary(): ComparisonSummary {
+      const primaryHeight = views[0].at(-1)?.meta.height ?? 0;
+      const secondaryHeight = views[1].at(-1)?.meta.height ?? 0;
+      return {
+        primaryHeight,
+        secondaryHeight,
+        heightLag: primaryHeight && secondaryHeight ? primaryHeight - secondaryHeight : 0,
+        timeLagMs: median(lagSamples),
+        comparisons,
+        divergent,
+        lastDiff,
+      };
+    },
+
+    reset() {
+      views[0] = [];
+      views[1] = [];
+      heightTimes[0].clear();
+      heightTimes[1].clear();
+      lagSamples = [];
+      comparisons = 0;
+      divergent = 0;
+      lastDiff = null;
+      lastDiffAt = -Infinity;
+      lastComparedHeight = 0;
+    },
+  };
+}
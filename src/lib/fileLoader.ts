@@ -10,3 +10,47 @@ export async function fetchAsBuffer(url: string): Promise<{ buffer: ArrayBuffer;
   const buffer = await res.arrayBuffer();
   return { buffer, size: buffer.byteLength };
 }
+
+export type Compression = 'gzip' | 'zstd' | null;
+
+export type SnapshotStream = {
+  stream: ReadableStream<Uint8Array>;
+  compression: Compression;
+  /** Bytes consumed from the file so far (compressed bytes for gz/zst input). */
+  bytesRead(): number;
+};
+
+/** Sniff compression from magic bytes rather than trusting the file extension. */
+export async function detectCompression(file: Blob): Promise<Compression> {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  if (head[0] === 0x1f && head[1] === 0x8b) return 'gzip';
+  if (head[0] === 0x28 && head[1] === 0xb5 && head[2] === 0x2f && head[3] === 0xfd) return 'zstd';
+  return null;
+}
+
+/**
+ * Open a snapshot file as a byte stream, transparently decompressing gzip
+ * (and zstd where the browser's DecompressionStream supports it).
+ */
+export async function openSnapshotStream(file: Blob): Promise<SnapshotStream> {
+  const compression = await detectCompression(file);
+  let consumed = 0;
+  const counted = file.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      consumed += chunk.length;
+      controller.enqueue(chunk);
+    },
+  }));
+
+  let stream: ReadableStream<Uint8Array> = counted;
+  if (compression) {
+    let decompressor: DecompressionStream;
+    try {
+      decompressor = new DecompressionStream(compression as CompressionFormat);
+    } catch {
+      throw new Error(`${compression} files are not supported by this browser — recompress with gzip`);
+    }
+    stream = counted.pipeThrough(decompressor as unknown as TransformStream<Uint8Array, Uint8Array>);
+  }
+  return { stream, compression, bytesRead: () => consumed };
+}
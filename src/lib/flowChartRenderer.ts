@@ -0,0 +1,195 @@
+import type { FlowSample } from './types';
+import { IMBALANCE_BANDS_BPS } from './bookFlow';
+import { drawTooltip, generateTicks } from './overlayRenderer';
+import { fmtPrice, fmtSize } from './format';
+import { fmtAgo } from './historyRenderer';
+
+/// 2D renderer for the flow chart: three lanes sharing a time axis that
+/// spans the lookback. Top: mid and microprice. Middle: depth imbalance per
+/// band on a fixed −1..1 scale. Bottom: net added size per side, summed into
+/// a few pixels per bar (bids up, asks down).
+
+const BAND_COLORS = ['#4fc3f7', '#b388ff', '#ffb300', '#f06292'];
+
+const BAR_PX = 4;
+
+function fmtSigned(v: number): string {
+  return `${v >= 0 ? '+' : '-'}${fmtSize(Math.abs(v))}`;
+}
+
+export function renderFlowChart(
+  ctx: CanvasRenderingContext2D,
+  samples: FlowSample[],
+  lookbackMs: number,
+  mouse: { x: number; y: number } | null,
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+  if (samples.length === 0 || lookbackMs <= 0) return;
+
+  const latest = samples[samples.length - 1].time;
+  const toX = (t: number) => (1 - (latest - t) / lookbackMs) * canvasWidth;
+
+  const priceBottom = Math.round(canvasHeight * 0.4);
+  const imbBottom = Math.round(canvasHeight * 0.72);
+
+  ctx.font = '15px monospace';
+  ctx.lineWidth = 1;
+
+  // Lane separators and time axis
+  ctx.strokeStyle = 'rgba(107,122,141,0.3)';
+  ctx.beginPath();
+  ctx.moveTo(0, priceBottom);
+  ctx.lineTo(canvasWidth, priceBottom);
+  ctx.moveTo(0, imbBottom);
+  ctx.lineTo(canvasWidth, imbBottom);
+  ctx.stroke();
+
+  ctx.fillStyle = '#6b7a8d';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  for (let i = 1; i < 4; i++) {
+    ctx.fillText(fmtAgo(lookbackMs * (1 - i / 4)), (i / 4) * canvasWidth, canvasHeight - 4);
+  }
+
+  // --- Mid and microprice ---
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const s of samples) {
+    lo = Math.min(lo, s.mid, s.microprice);
+    hi = Math.max(hi, s.mid, s.microprice);
+  }
+  const pad = Math.max((hi - lo) * 0.1, hi * 1e-6);
+  lo -= pad;
+  hi += pad;
+  const top = 6;
+  const priceY = (p: number) => top + ((hi - p) / (hi - lo)) * (priceBottom - top * 2);
+
+  ctx.strokeStyle = 'rgba(107,122,141,0.15)';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  for (const p of generateTicks(lo, hi, Math.max(1, Math.floor(priceBottom / 50)))) {
+    const y = priceY(p);
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(canvasWidth, y);
+    ctx.stroke();
+    ctx.fillText(fmtPrice(p), 6, y);
+  }
+
+  ctx.setLineDash([4, 4]);
+  ctx.strokeStyle = 'rgba(197,205,217,0.6)';
+  drawSeries(ctx, samples, toX, (s) => priceY(s.mid));
+  ctx.setLineDash([]);
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = '#c5cdd9';
+  drawSeries(ctx, samples, toX, (s) => priceY(s.microprice));
+  ctx.lineWidth = 1;
+
+  // --- Imbalance ---
+  const imbMid = (priceBottom + imbBottom) / 2;
+  const imbHalf = (imbBottom - priceBottom) / 2 - 4;
+  ctx.strokeStyle = 'rgba(107,122,141,0.3)';
+  ctx.beginPath();
+  ctx.moveTo(0, imbMid);
+  ctx.lineTo(canvasWidth, imbMid);
+  ctx.stroke();
+  IMBALANCE_BANDS_BPS.forEach((_, b) => {
+    ctx.strokeStyle = BAND_COLORS[b % BAND_COLORS.length];
+    drawSeries(ctx, samples, toX, (s) => imbMid - (s.imbalance[b] ?? 0) * imbHalf);
+  });
+
+  // --- Net added, summed per bar ---
+  const bars = Math.max(1, Math.floor(canvasWidth / BAR_PX));
+  const bidSums = new Float64Array(bars);
+  const askSums = new Float64Array(bars);
+  for (const s of samples) {
+    const bar = Math.floor(toX(s.time) / BAR_PX);
+    if (bar < 0 || bar >= bars) continue;
+    bidSums[bar] += s.netAddedBid;
+    askSums[bar] += s.netAddedAsk;
+  }
+  let maxAbs = 0;
+  for (let i = 0; i < bars; i++) maxAbs = Math.max(maxAbs, Math.abs(bidSums[i]), Math.abs(askSums[i]));
+  const flowMid = (imbBottom + canvasHeight - 20) / 2;
+  const flowHalf = (canvasHeight - 20 - imbBottom) / 2 - 4;
+  if (maxAbs > 0) {
+    for (let i = 0; i < bars; i++) {
+      // Bids above the line, asks below; a net cancel is drawn faded on its own side
+      const bh = (Math.abs(bidSums[i]) / maxAbs) * flowHalf;
+      const ah = (Math.abs(askSums[i]) / maxAbs) * flowHalf;
+      ctx.fillStyle = bidSums[i] >= 0 ? 'rgba(0,200,83,0.85)' : 'rgba(0,200,83,0.35)';
+      ctx.fillRect(i * BAR_PX, flowMid - bh, BAR_PX - 1, bh);
+      ctx.fillStyle = askSums[i] >= 0 ? 'rgba(255,23,68,0.85)' : 'rgba(255,23,68,0.35)';
+      ctx.fillRect(i * BAR_PX, flowMid, BAR_PX - 1, ah);
+    }
+  }
+
+  // Lane labels
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#c5cdd9';
+  ctx.fillText('microprice', canvasWidth - 8, top);
+  let x = canvasWidth - 8;
+  for (let b = IMBALANCE_BANDS_BPS.length - 1; b >= 0; b--) {
+    const label = `${IMBALANCE_BANDS_BPS[b]}bp`;
+    ctx.fillStyle = BAND_COLORS[b % BAND_COLORS.length];
+    ctx.fillText(label, x, priceBottom + 4);
+    x -= ctx.measureText(label).width + 10;
+  }
+  ctx.fillStyle = '#6b7a8d';
+  ctx.fillText('imbalance', x, priceBottom + 4);
+  ctx.fillText(`net added ±${fmtSize(maxAbs)}`, canvasWidth - 8, imbBottom + 4);
+
+  if (!mouse) return;
+
+  // Nearest sample to the cursor's time
+  const t = latest - (1 - mouse.x / canvasWidth) * lookbackMs;
+  let first = 0;
+  let last = samples.length - 1;
+  while (first < last) {
+    const m = (first + last) >> 1;
+    if (samples[m].time < t) first = m + 1;
+    else last = m;
+  }
+  if (first > 0 && t - samples[first - 1].time < samples[first].time - t) first--;
+  const s = samples[first];
+  const sx = toX(s.time);
+
+  ctx.setLineDash([4, 4]);
+  ctx.strokeStyle = 'rgba(197,205,217,0.5)';
+  ctx.beginPath();
+  ctx.moveTo(sx, 0);
+  ctx.lineTo(sx, canvasHeight);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  const micropriceBps = s.mid > 0 ? ((s.microprice - s.mid) / s.mid) * 10_000 : 0;
+  const lines = [
+    new Date(s.time).toISOString().slice(11, 23),
+    `Mid: ${fmtPrice(s.mid)}`,
+    `Micro: ${fmtPrice(s.microprice)} (${micropriceBps >= 0 ? '+' : ''}${micropriceBps.toFixed(2)} bps)`,
+    ...IMBALANCE_BANDS_BPS.map((bps, b) => `Imb ${bps}bp: ${(s.imbalance[b] ?? 0) >= 0 ? '+' : ''}${(s.imbalance[b] ?? 0).toFixed(2)}`),
+    `Net bid: ${fmtSigned(s.netAddedBid)}  ask: ${fmtSigned(s.netAddedAsk)}`,
+  ];
+  drawTooltip(ctx, lines, '#c5cdd9', null, mouse.x, mouse.y, canvasWidth);
+}
+
+function drawSeries(
+  ctx: CanvasRenderingContext2D,
+  samples: FlowSample[],
+  toX: (t: number) => number,
+  toY: (s: FlowSample) => number,
+) {
+  ctx.beginPath();
+  let started = false;
+  for (const s of samples) {
+    const x = toX(s.time);
+    if (x < 0) continue;
+    if (started) ctx.lineTo(x, toY(s));
+    else ctx.moveTo(x, toY(s));
+    started = true;
+  }
+  ctx.stroke();
+}
@@ -0,0 +1,76 @@
+import type { FlowSample } from './types';
+
+/// Rolling store of the worker's book-pressure samples for the flow chart.
+/// Everything up to the longest lookback is kept, so switching lookbacks just
+/// changes the window; a new coin or block time going backwards (a replay
+/// seek) starts the series over.
+
+export const FLOW_LOOKBACKS = [
+  { label: '1m', ms: 60_000 },
+  { label: '5m', ms: 300_000 },
+  { label: '15m', ms: 900_000 },
+  { label: '1h', ms: 3_600_000 },
+];
+
+const MAX_AGE_MS = FLOW_LOOKBACKS[FLOW_LOOKBACKS.length - 1].ms;
+const MAX_SAMPLES = 40_000;   // an hour at ten rebuilds a second
+
+export type FlowSeries = ReturnType<typeof createFlowSeries>;
+
+export function createFlowSeries(initialLookbackMs: number = FLOW_LOOKBACKS[1].ms) {
+  let samples: FlowSample[] = [];
+  let start = 0;             // first live sample; the prefix is dropped in batches
+  let lookbackMs = initialLookbackMs;
+  let coin = '';
+
+  return {
+    /** Append one sample. Returns false if it was ignored (not newer than the last). */
+    push(sample: FlowSample, sampleCoin: string): boolean {
+      const last = samples.length > start ? samples[samples.length - 1] : null;
+      if (sampleCoin !== coin || (last && sample.time < last.time)) {
+        coin = sampleCoin;
+        samples = [];
+        start = 0;
+      } else if (last && sample.time === last.time) {
+        return false;
+      }
+      samples.push(sample);
+
+      while (start < samples.length && sample.time - samples[start].time > MAX_AGE_MS) start++;
+      if (samples.length - start > MAX_SAMPLES) start = samples.length - MAX_SAMPLES;
+      if (start > 4096 && start > samples.length / 2) {
+        samples = samples.slice(start);
+        start = 0;
+      }
+      return true;
+    },
+
+    /** Samples inside the lookback, oldest first. */
+    window(): FlowSample[] {
+      if (samples.length === start) return [];
+      const latest = samples[samples.length - 1].time;
+      let lo = start;
+      let hi = samples.length - 1;
+      while (lo < hi) {
+        const m = (lo + hi) >> 1;
+        if (latest - samples[m].time > lookbackMs) lo = m + 1;
+        else hi = m;
+      }
+      return samples.slice(lo);
+    },
+
+    get lookbackMs() {
+      return lookbackMs;
+    },
+
+    setLookback(ms: number) {
+      lookbackMs = ms;
+    },
+
+    reset() {
+      samples = [];
+      start = 0;
+      coin = '';
+    },
+  };
+}
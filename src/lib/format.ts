@@ -0,0 +1,25 @@
+/// Number formatting shared by the canvas overlays and the panels, so a size
+/// or price reads the same wherever it appears.
+
+/** Price with precision that shrinks as the price grows. */
+export function fmtPrice(p: number): string {
+  if (p >= 10000) return p.toFixed(0);
+  if (p >= 100) return p.toFixed(1);
+  if (p >= 1) return p.toFixed(2);
+  return p.toFixed(4);
+}
+
+/** Order or level size in coin units. */
+export function fmtSize(s: number): string {
+  if (s >= 1000) return s.toFixed(1);
+  if (s >= 100) return s.toFixed(2);
+  if (s >= 1) return s.toFixed(4);
+  return s.toFixed(5);
+}
+
+/** Dollar notional, abbreviated to K / M. */
+export function fmtNotional(n: number): string {
+  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1_000) return `$${(n / 1_000).toFixed(1)}K`;
+  return `$${n.toFixed(0)}`;
+}
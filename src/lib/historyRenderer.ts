@@ -0,0 +1,295 @@
+import type { ViewRange } from './types';
+import { HISTORY_COLUMNS, HISTORY_ROWS, type LiquidityHistory } from './liquidityHistory';
+import { drawTooltip, generateTicks } from './overlayRenderer';
+import { fmtPrice, fmtSize } from './format';
+
+/// WebGL2 renderer for the liquidity history: price on Y, time on X. The
+/// history lives in an RG32F texture (x = price row, y = ring column, r = bid
+/// size, g = ask size); a fullscreen triangle maps each pixel back to a
+/// (column, row) and colours it by log-scaled size. New samples upload a
+/// single texture row.
+
+const VERT_SRC = `#version 300 es
+precision highp float;
+
+// Fullscreen triangle from gl_VertexID, no buffers needed
+void main() {
+  vec2 pos = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(pos * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+const FRAG_SRC = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+
+uniform sampler2D u_history;
+uniform vec2 u_viewport;     // canvas size in px
+uniform vec2 u_rowRange;     // fractional grid rows at the bottom / top of the view
+uniform int u_head;          // next ring column to be written
+uniform int u_filled;
+uniform float u_logMax;      // log(1 + largest size in view)
+
+out vec4 fragColor;
+
+const int COLUMNS = ${HISTORY_COLUMNS};
+const int ROWS = ${HISTORY_ROWS};
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / u_viewport;
+
+  // Newest sample at the right edge
+  int age = int(floor((1.0 - uv.x) * float(COLUMNS)));
+  int row = int(floor(mix(u_rowRange.x, u_rowRange.y, uv.y)));
+  if (age >= u_filled || row < 0 || row >= ROWS) {
+    fragColor = vec4(0.0);
+    return;
+  }
+  int col = (u_head - 1 - age + COLUMNS) % COLUMNS;
+  vec2 s = texelFetch(u_history, ivec2(row, col), 0).rg;
+
+  float bid = clamp(log(1.0 + s.r) / u_logMax, 0.0, 1.0);
+  float ask = clamp(log(1.0 + s.g) / u_logMax, 0.0, 1.0);
+  vec3 bidColor = vec3(0.0, 0.78, 0.325);  // #00c853
+  vec3 askColor = vec3(1.0, 0.09, 0.27);   // #ff1744
+  float a = max(bid, ask);
+  vec3 color = a > 0.0 ? (bidColor * bid + askColor * ask) / (bid + ask) : vec3(0.0);
+  // Keep thin liquidity visible against the background
+  fragColor = vec4(color, a > 0.0 ? mix(0.15, 1.0, a) : 0.0);
+}
+`;
+
+function compileShader(gl: WebGL2RenderingContext, type: number, src: string): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, src);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile error: ${log}`);
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext): WebGLProgram {
+  const vs = compileShader(gl, gl.VERTEX_SHADER, VERT_SRC);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, FRAG_SRC);
+  const prog = gl.createProgram()!;
+  gl.attachShader(prog, vs);
+  gl.attachShader(prog, fs);
+  gl.linkProgram(prog);
+  if (!gl.getProgramParameter(prog, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(prog);
+    throw new Error(`Program link error: ${log}`);
+  }
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  return prog;
+}
+
+// Columns scanned for the colour scale (newest first); enough to track the
+// current book without walking the whole texture every frame
+const SCALE_COLUMNS = 64;
+
+export type HistoryGL = {
+  render(history: LiquidityHistory, range: ViewRange): void;
+  resize(width: number, height: number): void;
+  destroy(): void;
+};
+
+export function createHistoryRenderer(canvas: HTMLCanvasElement): HistoryGL {
+  const gl = canvas.getContext('webgl2', { alpha: true, premultipliedAlpha: false })!;
+  if (!gl) throw new Error('WebGL2 not supported');
+
+  const program = createProgram(gl);
+  gl.useProgram(program);
+
+  const u_history = gl.getUniformLocation(program, 'u_history')!;
+  const u_viewport = gl.getUniformLocation(program, 'u_viewport')!;
+  const u_rowRange = gl.getUniformLocation(program, 'u_rowRange')!;
+  const u_head = gl.getUniformLocation(program, 'u_head')!;
+  const u_filled = gl.getUniformLocation(program, 'u_filled')!;
+  const u_logMax = gl.getUniformLocation(program, 'u_logMax')!;
+
+  const vao = gl.createVertexArray()!;
+
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  // Float textures aren't filterable everywhere; texelFetch ignores filtering anyway
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RG32F, HISTORY_ROWS, HISTORY_COLUMNS);
+
+  const stride = HISTORY_ROWS * 2;
+  // A fresh texture is empty, so the first upload copies everything the history already holds
+  let uploaded = false;
+
+  function upload(history: LiquidityHistory) {
+    const pending = history.takeUploads();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    if (pending.full || !uploaded) {
+      uploaded = true;
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, HISTORY_ROWS, HISTORY_COLUMNS, gl.RG, gl.FLOAT, history.cells);
+      return;
+    }
+    for (const c of pending.columns) {
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, c, HISTORY_ROWS, 1, gl.RG, gl.FLOAT,
+        history.cells.subarray(c * stride, (c + 1) * stride));
+    }
+  }
+
+  return {
+    render(history: LiquidityHistory, range: ViewRange) {
+      upload(history);
+
+      const w = gl.canvas.width;
+      const h = gl.canvas.height;
+      gl.viewport(0, 0, w, h);
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      if (history.filled === 0) return;
+
+      const rowMin = history.rowOf(range.priceMin);
+      const rowMax = history.rowOf(range.priceMax);
+      const maxSize = history.maxSize(rowMin, rowMax, SCALE_COLUMNS);
+      if (maxSize <= 0) return;
+
+      gl.useProgram(program);
+      gl.bindVertexArray(vao);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.uniform1i(u_history, 0);
+      gl.uniform2f(u_viewport, w, h);
+      gl.uniform2f(u_rowRange, rowMin, rowMax);
+      gl.uniform1i(u_head, history.head);
+      gl.uniform1i(u_filled, history.filled);
+      gl.uniform1f(u_logMax, Math.log1p(maxSize));
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      gl.bindVertexArray(null);
+    },
+
+    resize(width: number, height: number) {
+      gl.canvas.width = width;
+      gl.canvas.height = height;
+    },
+
+    destroy() {
+      gl.deleteTexture(texture);
+      gl.deleteVertexArray(vao);
+      gl.deleteProgram(program);
+    },
+  };
+}
+
+// --- 2D overlay: BBO lines, axes, hover readout ---
+
+export function fmtAgo(ms: number): string {
+  if (ms <= 0) return 'now';
+  if (ms >= 60_000) return `-${+(ms / 60_000).toFixed(1)}m`;
+  return `-${Math.round(ms / 1000)}s`;
+}
+
+function drawSideLine(
+  ctx: CanvasRenderingContext2D,
+  history: LiquidityHistory,
+  prices: Float64Array,
+  toY: (p: number) => number,
+  canvasWidth: number,
+) {
+  ctx.beginPath();
+  let started = false;
+  for (let age = 0; age < history.filled; age++) {
+    const p = prices[history.columnAt(age)];
+    if (!Number.isFinite(p)) {
+      started = false;
+      continue;
+    }
+    const x = (1 - (age + 0.5) / HISTORY_COLUMNS) * canvasWidth;
+    const y = toY(p);
+    if (started) ctx.lineTo(x, y);
+    else ctx.moveTo(x, y);
+    started = true;
+  }
+  ctx.stroke();
+}
+
+export function renderHistoryOverlay(
+  ctx: CanvasRenderingContext2D,
+  history: LiquidityHistory,
+  range: ViewRange,
+  mouse: { x: number; y: number } | null,
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+  const priceRange = range.priceMax - range.priceMin;
+  if (priceRange <= 0) return;
+  const toY = (p: number) => ((range.priceMax - p) / priceRange) * canvasHeight;
+
+  // Price axis (left)
+  ctx.font = '15px monospace';
+  ctx.strokeStyle = 'rgba(107,122,141,0.15)';
+  ctx.fillStyle = '#6b7a8d';
+  ctx.lineWidth = 1;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  for (const p of generateTicks(range.priceMin, range.priceMax, Math.floor(canvasHeight / 60))) {
+    const y = toY(p);
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(canvasWidth, y);
+    ctx.stroke();
+    ctx.fillText(fmtPrice(p), 6, y);
+  }
+
+  // Time axis (bottom): the window always spans the full lookback
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  for (let i = 1; i < 4; i++) {
+    const x = (i / 4) * canvasWidth;
+    ctx.fillText(fmtAgo(history.lookbackMs * (1 - i / 4)), x, canvasHeight - 4);
+  }
+
+  // BBO lines with the mid dashed between them
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = '#00c853';
+  drawSideLine(ctx, history, history.bestBids, toY, canvasWidth);
+  ctx.strokeStyle = '#ff1744';
+  drawSideLine(ctx, history, history.bestAsks, toY, canvasWidth);
+  const mids = new Float64Array(HISTORY_COLUMNS);
+  for (let c = 0; c < HISTORY_COLUMNS; c++) mids[c] = (history.bestBids[c] + history.bestAsks[c]) / 2;
+  ctx.setLineDash([4, 4]);
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = 'rgba(197,205,217,0.6)';
+  drawSideLine(ctx, history, mids, toY, canvasWidth);
+  ctx.setLineDash([]);
+
+  if (!mouse) return;
+
+  ctx.setLineDash([4, 4]);
+  ctx.strokeStyle = 'rgba(197,205,217,0.5)';
+  ctx.beginPath();
+  ctx.moveTo(mouse.x, 0);
+  ctx.lineTo(mouse.x, canvasHeight);
+  ctx.moveTo(0, mouse.y);
+  ctx.lineTo(canvasWidth, mouse.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  const age = Math.floor((1 - mouse.x / canvasWidth) * HISTORY_COLUMNS);
+  const price = range.priceMax - (mouse.y / canvasHeight) * priceRange;
+  const cell = history.cellAt(age, price);
+  if (!cell) return;
+  const latest = history.times[history.columnAt(0)];
+  const lines = [
+    `$${fmtPrice(cell.price)}  ${fmtAgo(latest - cell.time)}`,
+    `Bid: ${fmtSize(cell.bid)}`,
+    `Ask: ${fmtSize(cell.ask)}`,
+    new Date(cell.time).toISOString().slice(11, 23),
+  ];
+  const headerColor = cell.bid >= cell.ask ? '#00c853' : '#ff1744';
+  drawTooltip(ctx, lines, headerColor, null, mouse.x, mouse.y, canvasWidth);
+}
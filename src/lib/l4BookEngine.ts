@@ -0,0 +1,571 @@
+import type { IntegrityIssueKind, OrderEventKind, SnapshotMeta, SnapshotView, Trade, TriggerLayer } from './types';
+
+/// Headless L4 order book: applies l4Book Snapshot and Updates payloads to an
+/// oid-keyed order map and builds the typed-array SnapshotView the renderers
+/// draw. Pure data in, data out — no DOM, worker or timer APIs — so the same
+/// engine backs the stream, replay and file paths in both workers and runs
+/// unchanged under Node.
+
+/** An order as the l4Book channel sends it. Fields the engine doesn't read pass through untouched. */
+export type WireOrder = {
+  user?: string;             // set in Snapshot levels; Updates carry it on the status entry
+  coin: string;
+  side: 'A' | 'B';
+  limitPx: string;
+  sz: string;
+  oid: number;
+  timestamp?: number;        // ms; some Updates orders omit it
+  isTrigger?: boolean;
+  triggerPx?: string;
+  triggerCondition?: string; // "N/A", "Triggered" or e.g. "Price above 3000"
+  [field: string]: unknown;
+};
+
+/** `data.Snapshot` of an l4Book message: bids, then asks. */
+export type SnapshotPayload = {
+  coin: string;
+  time: number;
+  height: number;
+  levels: WireOrder[][];
+};
+
+export type WireOrderStatus = {
+  user?: string;
+  status: string;
+  order: WireOrder;
+  [field: string]: unknown;
+};
+
+/** `data.Updates` of an l4Book message. */
+export type UpdatesPayload = {
+  time: number;
+  height: number;
+  order_statuses: WireOrderStatus[];
+  [field: string]: unknown;
+};
+
+export type BookOrder = {
+  oid: number;
+  side: number;    // 0=bid, 1=ask
+  price: number;
+  size: number;
+  timestamp: number;
+  user: string;
+  raw: WireOrder;  // wire-format order (with user), kept for lossless snapshot export
+};
+
+/** An untriggered stop / take-profit: off the book until its trigger fires. */
+export type TriggerOrder = BookOrder & {
+  triggerPx: number;
+  triggerCondition: string;   // e.g. "Price above 3000"
+};
+
+/** Book state at a point in time. BookOrders are never mutated, so references suffice. */
+export type EngineCheckpoint = {
+  orders: BookOrder[];
+  triggers: TriggerOrder[];
+  meta: SnapshotMeta;
+  tickSize: number;
+};
+
+/** A payload entry the engine refused or couldn't reconcile with the book. */
+export type EngineIssue = {
+  kind: Exclude<IntegrityIssueKind, 'crossedBook' | 'missingHeight'>;
+  oid?: number;
+  detail: string;
+};
+
+/** A change to one resting order, reported as it is applied. Snapshots report none. */
+export type EngineOrderEvent = {
+  kind: OrderEventKind;
+  order: BookOrder;           // state after the event; the removed order for fills/cancels
+  prev?: BookOrder;           // state before, for modifications and size reductions
+  time: number;               // ms — block time of the Updates frame
+  status: string;
+};
+
+export type L4BookEngineHooks = {
+  onIssue?: (issue: EngineIssue) => void;
+  /** A resting order was filled; only `filled` statuses count, so partial fills never print. */
+  onTrade?: (trade: Trade) => void;
+  onOrderEvent?: (event: EngineOrderEvent) => void;
+};
+
+export type L4BookEngine = {
+  readonly meta: SnapshotMeta;
+  readonly orderCount: number;
+  readonly triggerCount: number;
+  readonly tickSize: number;
+  /** Live orders in insertion order. */
+  orders(): IterableIterator<BookOrder>;
+  /** Untriggered trigger orders, held apart from the book. */
+  triggerOrders(): IterableIterator<TriggerOrder>;
+  getOrder(oid: number): BookOrder | undefined;
+  /** Replace the book with a full `Snapshot` payload ({ coin, time, height, levels }). */
+  applySnapshot(snapshot: SnapshotPayload): void;
+  /**
+   * Streaming form of applySnapshot for incremental parsers: clear the book,
+   * feed raw orders one by one, then close with the snapshot header.
+   */
+  beginSnapshot(): void;
+  addSnapshotOrder(raw: WireOrder): void;
+  endSnapshot(meta: SnapshotMeta): void;
+  /**
+   * Apply an `Updates` payload. `fallbackTime` stamps orders that arrive without
+   * a timestamp. Returns the number of diffs that changed the book.
+   */
+  applyUpdates(updates: UpdatesPayload, fallbackTime: number): number;
+  /** Mid of best bid and best ask, or 0 if a side is empty. O(levels). */
+  midPrice(): number;
+  /** Best bid and best ask (NaN for an empty side). O(levels). */
+  touch(): { bestBid: number; bestAsk: number };
+  /** Total resting size at one price on one side (0 = bid, 1 = ask). */
+  levelSize(side: number, price: number): number;
+  /** Typed-array view of the current book; fresh buffers every call, safe to transfer. */
+  buildView(): SnapshotView;
+  checkpoint(): EngineCheckpoint;
+  restore(cp: EngineCheckpoint): void;
+  clear(): void;
+};
+
+// Statuses that add an order to the book
+const ADD_STATUSES = new Set(['open']);
+// Statuses that remove an order from the book
+const REMOVE_STATUSES = new Set(['canceled', 'filled', 'marginCanceled', 'reduceOnlyCanceled']);
+// Statuses that leave the book unchanged (rejections never rested)
+const NOOP_STATUSES = new Set(['rejected']);
+
+function isNoopStatus(status: string): boolean {
+  return NOOP_STATUSES.has(status) || status.endsWith('Rejected');
+}
+
+/** Untriggered trigger orders aren't resting liquidity; triggered ones are. */
+export function isRestingOrder(raw: WireOrder): boolean {
+  return !raw.isTrigger || raw.triggerCondition === 'Triggered';
+}
+
+export function parseBookOrder(raw: WireOrder): BookOrder | null {
+  if (!isRestingOrder(raw)) return null;
+  return {
+    oid: raw.oid,
+    side: raw.side === 'B' ? 0 : 1,
+    price: parseFloat(raw.limitPx),
+    size: parseFloat(raw.sz),
+    timestamp: raw.timestamp ?? 0,
+    user: raw.user || '',
+    raw,
+  };
+}
+
+export function parseTriggerOrder(raw: WireOrder): TriggerOrder {
+  return {
+    oid: raw.oid,
+    side: raw.side === 'B' ? 0 : 1,
+    price: parseFloat(raw.limitPx),
+    size: parseFloat(raw.sz),
+    timestamp: raw.timestamp ?? 0,
+    user: raw.user || '',
+    raw,
+    triggerPx: parseFloat(raw.triggerPx ?? ''),
+    triggerCondition: raw.triggerCondition ?? '',
+  };
+}
+
+/** Smallest gap between adjacent price levels, rounded to kill float noise. */
+function computeTickSize(prices: Iterable<number>): number {
+  const uniquePrices = Array.from(prices).sort((a, b) => a - b);
+  let minDiff = Infinity;
+  for (let i = 1; i < uniquePrices.length; i++) {
+    const diff = uniquePrices[i] - uniquePrices[i - 1];
+    if (diff > 1e-9 && diff < minDiff) minDiff = diff;
+  }
+  return minDiff < Infinity ? Math.round(minDiff * 1e8) / 1e8 : 1;
+}
+
+function buildSide(entries: [number, number][]) {
+  const prices = new Float64Array(entries.length);
+  const sizes = new Float64Array(entries.length);
+  const cumSizes = new Float64Array(entries.length);
+  let cum = 0;
+  for (let i = 0; i < entries.length; i++) {
+    prices[i] = entries[i][0];
+    sizes[i] = entries[i][1];
+    cum += entries[i][1];
+    cumSizes[i] = cum;
+  }
+  return { prices, sizes, cumSizes };
+}
+
+export function createL4BookEngine(hooks: L4BookEngineHooks = {}): L4BookEngine {
+  const orders = new Map<number, BookOrder>();
+  const triggers = new Map<number, TriggerOrder>();   // untriggered trigger orders, kept off the book
+  let meta: SnapshotMeta = { coin: '', time: 0, height: 0 };
+  let tickSize = 1;
+
+  // Incremental aggregates, maintained by addOrder/removeOrder
+  const byPrice = new Map<number, BookOrder[]>();
+  const bidMap = new Map<number, number>();   // price → total size
+  const askMap = new Map<number, number>();   // price → total size
+
+  function addOrder(o: BookOrder) {
+    orders.set(o.oid, o);
+    let group = byPrice.get(o.price);
+    if (!group) {
+      group = [];
+      byPrice.set(o.price, group);
+    }
+    group.push(o);
+
+    const map = o.side === 0 ? bidMap : askMap;
+    map.set(o.price, (map.get(o.price) || 0) + o.size);
+  }
+
+  function removeOrder(o: BookOrder) {
+    orders.delete(o.oid);
+    const group = byPrice.get(o.price);
+    if (group) {
+      const idx = group.indexOf(o);
+      if (idx >= 0) group.splice(idx, 1);
+      if (group.length === 0) byPrice.delete(o.price);
+    }
+
+    const map = o.side === 0 ? bidMap : askMap;
+    const next = (map.get(o.price) || 0) - o.size;
+    if (next <= 1e-12) {
+      map.delete(o.price);
+    } else {
+      map.set(o.price, next);
+    }
+  }
+
+  function clear() {
+    meta = { coin: '', time: 0, height: 0 };
+    orders.clear();
+    triggers.clear();
+    byPrice.clear();
+    bidMap.clear();
+    askMap.clear();
+    tickSize = 1;
+  }
+
+  // Orders with unusable numbers would poison the level sums; report and skip them
+  function isValidOrder(o: BookOrder): boolean {
+    if (o.size > 0 && Number.isFinite(o.price)) return true;
+    hooks.onIssue?.({
+      kind: 'invalidOrder',
+      oid: o.oid,
+      detail: `sz ${JSON.stringify(o.raw.sz)} @ px ${JSON.stringify(o.raw.limitPx)}`,
+    });
+    return false;
+  }
+
+  // Insert, replacing any order already on the book under the same oid. A
+  // re-sent `open` with a new price or size is a modification; only one
+  // that changes nothing is a duplicate.
+  function placeOrder(o: BookOrder) {
+    const prev = orders.get(o.oid);
+    if (prev) {
+      if (prev.side === o.side && prev.price === o.price && prev.size === o.size) {
+        hooks.onIssue?.({ kind: 'duplicateOpen', oid: o.oid, detail: `already resting ${prev.size} @ ${prev.price}` });
+      }
+      removeOrder(prev);
+    }
+    addOrder(o);
+  }
+
+  function addSnapshotOrder(raw: WireOrder) {
+    const o = parseBookOrder(raw);
+    if (!o) {
+      triggers.set(raw.oid, parseTriggerOrder(raw));
+      return;
+    }
+    if (isValidOrder(o)) placeOrder(o);
+  }
+
+  function endSnapshot(header: SnapshotMeta) {
+    meta = { coin: header.coin, time: header.time, height: header.height };
+    // Tick size is fixed per snapshot; diffs never change it
+    tickSize = computeTickSize(byPrice.keys());
+  }
+
+  function applySnapshot(snapshot: SnapshotPayload) {
+    clear();
+    meta = { coin: snapshot.coin, time: snapshot.time, height: snapshot.height };   // so issues carry the height
+    for (const side of snapshot.levels) {
+      for (const raw of side) addSnapshotOrder(raw);
+    }
+    endSnapshot(snapshot);
+  }
+
+  function emitTrade(maker: BookOrder, size: number, time: number) {
+    hooks.onTrade?.({
+      time,
+      height: meta.height,
+      price: maker.price,
+      size,
+      side: maker.side === 0 ? 1 : 0,
+      maker: maker.user,
+      oid: maker.oid,
+    });
+  }
+
+  // A fired trigger becomes an ordinary resting order at its limit price
+  function activateTrigger(oid: number, order: WireOrder, time: number): boolean {
+    const trigger = triggers.get(oid);
+    if (!trigger) return false;
+    triggers.delete(oid);
+    // Stamped with the activation time: that's when it started resting
+    const raw = { ...trigger.raw, ...order, user: trigger.user, triggerCondition: 'Triggered', timestamp: time };
+    const o: BookOrder = {
+      oid,
+      side: raw.side === 'B' ? 0 : 1,
+      price: parseFloat(raw.limitPx),
+      size: parseFloat(raw.sz),
+      timestamp: time,
+      user: trigger.user,
+      raw,
+    };
+    if (isValidOrder(o)) {
+      placeOrder(o);
+      hooks.onOrderEvent?.({ kind: 'placed', order: o, time, status: 'triggered' });
+    }
+    return true;
+  }
+
+  function applyUpdates(updates: UpdatesPayload, fallbackTime: number): number {
+    if (updates?.time) meta.time = updates.time;
+    if (updates?.height) meta.height = updates.height;
+    const time = updates?.time || fallbackTime;
+
+    const orderStatuses = updates?.order_statuses;
+    if (!Array.isArray(orderStatuses)) return 0;
+
+    let diffs = 0;
+    for (const entry of orderStatuses) {
+      const status: string = entry?.status;
+      const order = entry?.order;
+      if (!order) continue;
+
+      const oid = order.oid;
+      if (oid == null) continue;
+
+      if (ADD_STATUSES.has(status)) {
+        // User is on the parent entry, not order.user, and the timestamp may be
+        // missing; raw carries the values used so an exported snapshot matches
+        const user = entry.user || order.user || '';
+        const timestamp = order.timestamp ?? fallbackTime;
+        const raw = order.user && order.timestamp != null ? order : { ...order, user, timestamp };
+        if (!isRestingOrder(raw)) {
+          triggers.set(oid, parseTriggerOrder(raw));
+          diffs++;
+          continue;
+        }
+        const o: BookOrder = {
+          oid,
+          side: raw.side === 'B' ? 0 : 1,
+          price: parseFloat(raw.limitPx),
+          size: parseFloat(raw.sz),
+          timestamp,
+          user,
+          raw,
+        };
+        if (!isValidOrder(o)) continue;
+        triggers.delete(oid);
+        // Same price, less size: a partial fill or a user's size-down — the
+        // status doesn't say which, so it's reported as a reduction, not a trade
+        const prev = orders.get(oid);
+        let kind: OrderEventKind = prev ? 'modified' : 'placed';
+        if (prev && prev.side === o.side && prev.price === o.price && o.size < prev.size) {
+          kind = 'sizeReduced';
+          removeOrder(prev);
+          addOrder(o);
+        } else {
+          placeOrder(o);
+        }
+        hooks.onOrderEvent?.({ kind, order: o, prev, time, status });
+        diffs++;
+      } else if (REMOVE_STATUSES.has(status)) {
+        const existing = orders.get(oid);
+        if (existing) {
+          // Whatever was still resting is what traded
+          if (status === 'filled') emitTrade(existing, existing.size, time);
+          removeOrder(existing);
+          hooks.onOrderEvent?.({ kind: status === 'filled' ? 'filled' : 'canceled', order: existing, time, status });
+          diffs++;
+        } else if (triggers.delete(oid)) {
+          diffs++;
+        } else if (status !== 'filled') {
+          // Fills of unknown oids are normal (takers never rest); cancels are not
+          hooks.onIssue?.({ kind: 'unknownRemove', oid, detail: `${status} for an oid not on the book` });
+        }
+      } else if (status === 'triggered') {
+        if (activateTrigger(oid, order, time)) diffs++;
+      } else if (!isNoopStatus(status)) {
+        hooks.onIssue?.({ kind: 'unknownStatus', oid, detail: `status ${JSON.stringify(status)}` });
+      }
+    }
+    return diffs;
+  }
+
+  function touch() {
+    let bestBid = -Infinity;
+    let bestAsk = Infinity;
+    for (const p of bidMap.keys()) if (p > bestBid) bestBid = p;
+    for (const p of askMap.keys()) if (p < bestAsk) bestAsk = p;
+    return { bestBid: bestBid > -Infinity ? bestBid : NaN, bestAsk: bestAsk < Infinity ? bestAsk : NaN };
+  }
+
+  function midPrice(): number {
+    const { bestBid, bestAsk } = touch();
+    return Number.isFinite(bestBid) && Number.isFinite(bestAsk) ? (bestBid + bestAsk) / 2 : 0;
+  }
+
+  // Triggers without a usable trigger price can't be placed on the price axis
+  function buildTriggerLayer(): TriggerLayer {
+    const list: TriggerOrder[] = [];
+    for (const t of triggers.values()) {
+      if (Number.isFinite(t.triggerPx) && t.size > 0) list.push(t);
+    }
+    const count = list.length;
+    const layer: TriggerLayer = {
+      triggerPrices: new Float64Array(count),
+      limitPrices: new Float64Array(count),
+      sizes: new Float64Array(count),
+      sides: new Float32Array(count),
+      oids: new Float64Array(count),
+      users: new Array(count),
+      conditions: new Array(count),
+      count,
+    };
+    for (let i = 0; i < count; i++) {
+      const t = list[i];
+      layer.triggerPrices[i] = t.triggerPx;
+      layer.limitPrices[i] = t.price;
+      layer.sizes[i] = t.size;
+      layer.sides[i] = t.side;
+      layer.oids[i] = t.oid;
+      layer.users[i] = t.user;
+      layer.conditions[i] = t.triggerCondition;
+    }
+    return layer;
+  }
+
+  function buildView(): SnapshotView {
+    const orderCount = orders.size;
+
+    const hmPrices = new Float32Array(orderCount);
+    const hmYOffsets = new Float32Array(orderCount);
+    const hmSizes = new Float32Array(orderCount);
+    const hmSides = new Float32Array(orderCount);
+    const hmBrightness = new Float32Array(orderCount);
+    const hmTimestamps = new Float64Array(orderCount);
+    const hmOids = new Float64Array(orderCount);
+    const hmUsers: string[] = new Array(orderCount);
+
+    let idx = 0;
+    let maxCumSize = 0;
+    let dataPriceMin = Infinity;
+    let dataPriceMax = -Infinity;
+
+    // Single pass over the price groups, oldest order at the bottom of each stack
+    for (const [price, group] of byPrice) {
+      group.sort((a, b) => a.timestamp - b.timestamp);
+      let cumOffset = 0;
+      for (const o of group) {
+        hmPrices[idx] = o.price;
+        hmYOffsets[idx] = cumOffset;
+        hmSizes[idx] = o.size;
+        hmSides[idx] = o.side;
+        hmTimestamps[idx] = o.timestamp;
+        hmOids[idx] = o.oid;
+        hmUsers[idx] = o.user;
+        cumOffset += o.size;
+        idx++;
+      }
+      if (cumOffset > maxCumSize) maxCumSize = cumOffset;
+      if (price < dataPriceMin) dataPriceMin = price;
+      if (price > dataPriceMax) dataPriceMax = price;
+    }
+
+    // Rank-based brightness across the whole book (0 = oldest, 1 = newest).
+    // Ranks rather than raw timestamps avoid Float32 precision loss when the
+    // book spans years but visible orders differ by milliseconds. Orders with
+    // equal timestamps share a rank.
+    const sorted = hmTimestamps.slice().sort();
+    const maxRank = orderCount - 1;
+    for (let i = 0; i < orderCount; i++) {
+      const ts = hmTimestamps[i];
+      let lo = 0;
+      let hi = maxRank;
+      while (lo < hi) {
+        const m = (lo + hi) >> 1;
+        if (sorted[m] < ts) lo = m + 1;
+        else hi = m;
+      }
+      hmBrightness[i] = maxRank > 0 ? lo / maxRank : 0.5;
+    }
+
+    return {
+      meta: { ...meta },
+      bids: buildSide(Array.from(bidMap.entries()).sort((a, b) => b[0] - a[0])),
+      asks: buildSide(Array.from(askMap.entries()).sort((a, b) => a[0] - b[0])),
+      heatmap: {
+        prices: hmPrices,
+        yOffsets: hmYOffsets,
+        sizes: hmSizes,
+        sides: hmSides,
+        brightness: hmBrightness,
+        timestamps: hmTimestamps,
+        oids: hmOids,
+        users: hmUsers,
+        maxCumSize,
+        count: orderCount,
+        timestampMin: orderCount > 0 ? sorted[0] : Infinity,
+        timestampMax: orderCount > 0 ? sorted[maxRank] : -Infinity,
+        tickSize,
+        dataPriceMin: dataPriceMin === Infinity ? 0 : dataPriceMin,
+        dataPriceMax: dataPriceMax === -Infinity ? 0 : dataPriceMax,
+      },
+      triggers: buildTriggerLayer(),
+    };
+  }
+
+  function checkpoint(): EngineCheckpoint {
+    return {
+      orders: Array.from(orders.values()),
+      triggers: Array.from(triggers.values()),
+      meta: { ...meta },
+      tickSize,
+    };
+  }
+
+  function restore(cp: EngineCheckpoint) {
+    clear();
+    for (const o of cp.orders) addOrder(o);
+    for (const t of cp.triggers) triggers.set(t.oid, t);
+    meta = { ...cp.meta };
+    tickSize = cp.tickSize;
+  }
+
+  return {
+    get meta() { return meta; },
+    get orderCount() { return orders.size; },
+    get triggerCount() { return triggers.size; },
+    get tickSize() { return tickSize; },
+    orders: () => orders.values(),
+    triggerOrders: () => triggers.values(),
+    getOrder: (oid) => orders.get(oid),
+    applySnapshot,
+    beginSnapshot: clear,
+    addSnapshotOrder,
+    endSnapshot,
+    applyUpdates,
+    midPrice,
+    touch,
+    levelSize: (side, price) => (side === 0 ? bidMap : askMap).get(price) ?? 0,
+    buildView,
+    checkpoint,
+    restore,
+    clear,
+  };
+}
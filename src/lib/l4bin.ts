@@ -0,0 +1,291 @@
+import type { SnapshotView, TriggerLayer } from './types';
+
+/// .l4bin — compact binary container for a SnapshotView.
+///
+/// Layout (little-endian):
+///   header   32 bytes: magic "L4BN", u16 version, u16 reserved,
+///            u32 payload length, u32 CRC-32 of payload, 16 reserved bytes
+///   payload  meta (f64 time, f64 height, u16 + UTF-8 coin),
+///            counts (u32 bids, asks, orders, users),
+///            heatmap scalars (6 × f64),
+///            typed arrays, each 8-byte aligned, in SnapshotView order
+///            (v2+: f64 oids after timestamps),
+///            u32 user index per order, then the deduplicated user table
+///            (u16 length + UTF-8 per address; v3+: trigger users too),
+///            v3+: the trigger layer — u32 count, then 8-byte aligned
+///            f64 trigger prices, f64 limit prices, f64 sizes, f32 sides,
+///            f64 oids, u32 user index per trigger, and a u16 + UTF-8
+///            condition per trigger.
+///
+/// The version is bumped whenever the payload layout changes; decoders for
+/// every older version stay in place so old files remain readable.
+
+export const L4BIN_MAGIC = 0x4e42344c;   // "L4BN" read as little-endian u32
+export const L4BIN_VERSION = 3;
+const HEADER_BYTES = 32;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function align8(n: number): number {
+  return (n + 7) & ~7;
+}
+
+/** True if the first bytes of a buffer carry the .l4bin magic. */
+export function hasL4BinMagic(head: ArrayBuffer): boolean {
+  return head.byteLength >= 4 && new DataView(head).getUint32(0, true) === L4BIN_MAGIC;
+}
+
+function emptyTriggerLayer(): TriggerLayer {
+  return {
+    triggerPrices: new Float64Array(0),
+    limitPrices: new Float64Array(0),
+    sizes: new Float64Array(0),
+    sides: new Float32Array(0),
+    oids: new Float64Array(0),
+    users: [],
+    conditions: [],
+    count: 0,
+  };
+}
+
+export function encodeL4Bin(view: SnapshotView): ArrayBuffer {
+  const { meta, bids, asks, heatmap } = view;
+  const triggers = view.triggers ?? emptyTriggerLayer();
+  const encoder = new TextEncoder();
+  const coinBytes = encoder.encode(meta.coin);
+
+  // Deduplicate order and trigger user addresses into one table + per-entry indices
+  const userIds = new Map<string, number>();
+  const userTable: Uint8Array[] = [];
+  function userId(user: string): number {
+    let id = userIds.get(user);
+    if (id === undefined) {
+      id = userTable.length;
+      userIds.set(user, id);
+      userTable.push(encoder.encode(user));
+    }
+    return id;
+  }
+  const userIndex = new Uint32Array(heatmap.count);
+  for (let i = 0; i < heatmap.count; i++) userIndex[i] = userId(heatmap.users[i] ?? '');
+  const triggerUserIndex = new Uint32Array(triggers.count);
+  for (let i = 0; i < triggers.count; i++) triggerUserIndex[i] = userId(triggers.users[i] ?? '');
+  const conditionBytes = triggers.conditions.map((c) => encoder.encode(c ?? ''));
+
+  const arrays: ArrayBufferView[] = [
+    bids.prices, bids.sizes, bids.cumSizes,
+    asks.prices, asks.sizes, asks.cumSizes,
+    heatmap.prices, heatmap.yOffsets, heatmap.sizes,
+    heatmap.sides, heatmap.brightness, heatmap.timestamps,
+    heatmap.oids,
+    userIndex,
+  ];
+
+  let size = 8 + 8 + 2 + coinBytes.length;
+  size = align8(size) + 16 + 6 * 8;
+  for (const a of arrays) size = align8(size) + a.byteLength;
+  for (const u of userTable) size += 2 + u.length;
+  const triggerArrays: ArrayBufferView[] = [
+    triggers.triggerPrices, triggers.limitPrices, triggers.sizes,
+    triggers.sides, triggers.oids,
+    triggerUserIndex,
+  ];
+  size = align8(size) + 4;
+  for (const a of triggerArrays) size = align8(size) + a.byteLength;
+  for (const c of conditionBytes) size += 2 + c.length;
+
+  const buffer = new ArrayBuffer(HEADER_BYTES + size);
+  const bytes = new Uint8Array(buffer);
+  const dv = new DataView(buffer);
+  let off = HEADER_BYTES;
+
+  dv.setFloat64(off, meta.time, true); off += 8;
+  dv.setFloat64(off, meta.height, true); off += 8;
+  dv.setUint16(off, coinBytes.length, true); off += 2;
+  bytes.set(coinBytes, off); off += coinBytes.length;
+
+  off = align8(off - HEADER_BYTES) + HEADER_BYTES;
+  dv.setUint32(off, bids.prices.length, true); off += 4;
+  dv.setUint32(off, asks.prices.length, true); off += 4;
+  dv.setUint32(off, heatmap.count, true); off += 4;
+  dv.setUint32(off, userTable.length, true); off += 4;
+  for (const v of [
+    heatmap.maxCumSize, heatmap.timestampMin, heatmap.timestampMax,
+    heatmap.tickSize, heatmap.dataPriceMin, heatmap.dataPriceMax,
+  ]) {
+    dv.setFloat64(off, v, true);
+    off += 8;
+  }
+
+  for (const a of arrays) {
+    off = align8(off - HEADER_BYTES) + HEADER_BYTES;
+    bytes.set(new Uint8Array(a.buffer, a.byteOffset, a.byteLength), off);
+    off += a.byteLength;
+  }
+
+  for (const u of userTable) {
+    dv.setUint16(off, u.length, true); off += 2;
+    bytes.set(u, off); off += u.length;
+  }
+
+  off = align8(off - HEADER_BYTES) + HEADER_BYTES;
+  dv.setUint32(off, triggers.count, true); off += 4;
+  for (const a of triggerArrays) {
+    off = align8(off - HEADER_BYTES) + HEADER_BYTES;
+    bytes.set(new Uint8Array(a.buffer, a.byteOffset, a.byteLength), off);
+    off += a.byteLength;
+  }
+  for (const c of conditionBytes) {
+    dv.setUint16(off, c.length, true); off += 2;
+    bytes.set(c, off); off += c.length;
+  }
+
+  const payload = bytes.subarray(HEADER_BYTES);
+  dv.setUint32(0, L4BIN_MAGIC, true);
+  dv.setUint16(4, L4BIN_VERSION, true);
+  dv.setUint32(8, payload.length, true);
+  dv.setUint32(12, crc32(payload), true);
+  return buffer;
+}
+
+// Versions differ only in sections added at fixed points (v2 oids, v3
+// triggers), so one reader handles them all
+function decodePayload(buffer: ArrayBuffer, version: number): SnapshotView {
+  const bytes = new Uint8Array(buffer);
+  const dv = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let off = HEADER_BYTES;
+
+  const time = dv.getFloat64(off, true); off += 8;
+  const height = dv.getFloat64(off, true); off += 8;
+  const coinLen = dv.getUint16(off, true); off += 2;
+  const coin = decoder.decode(bytes.subarray(off, off + coinLen)); off += coinLen;
+
+  off = align8(off - HEADER_BYTES) + HEADER_BYTES;
+  const bidCount = dv.getUint32(off, true); off += 4;
+  const askCount = dv.getUint32(off, true); off += 4;
+  const count = dv.getUint32(off, true); off += 4;
+  const userCount = dv.getUint32(off, true); off += 4;
+  const scalars: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    scalars.push(dv.getFloat64(off, true));
+    off += 8;
+  }
+  const [maxCumSize, timestampMin, timestampMax, tickSize, dataPriceMin, dataPriceMax] = scalars;
+
+  // Each array gets its own (copied) buffer so it can be transferred independently
+  function take<T>(ctor: { new(b: ArrayBuffer): T; BYTES_PER_ELEMENT: number }, n: number): T {
+    off = align8(off - HEADER_BYTES) + HEADER_BYTES;
+    const len = n * ctor.BYTES_PER_ELEMENT;
+    if (off + len > buffer.byteLength) throw new Error('Truncated .l4bin file');
+    const arr = new ctor(buffer.slice(off, off + len));
+    off += len;
+    return arr;
+  }
+
+  const bidPrices = take(Float64Array, bidCount);
+  const bidSizes = take(Float64Array, bidCount);
+  const bidCumSizes = take(Float64Array, bidCount);
+  const askPrices = take(Float64Array, askCount);
+  const askSizes = take(Float64Array, askCount);
+  const askCumSizes = take(Float64Array, askCount);
+  const hmPrices = take(Float32Array, count);
+  const hmYOffsets = take(Float32Array, count);
+  const hmSizes = take(Float32Array, count);
+  const hmSides = take(Float32Array, count);
+  const hmBrightness = take(Float32Array, count);
+  const hmTimestamps = take(Float64Array, count);
+  const hmOids = version >= 2 ? take(Float64Array, count) : new Float64Array(count).fill(NaN);
+  const userIndex = take(Uint32Array, count);
+
+  const userTable: string[] = new Array(userCount);
+  for (let i = 0; i < userCount; i++) {
+    const len = dv.getUint16(off, true); off += 2;
+    userTable[i] = decoder.decode(bytes.subarray(off, off + len));
+    off += len;
+  }
+  const users: string[] = new Array(count);
+  for (let i = 0; i < count; i++) users[i] = userTable[userIndex[i]];
+
+  let triggers: TriggerLayer | undefined;
+  if (version >= 3) {
+    off = align8(off - HEADER_BYTES) + HEADER_BYTES;
+    const triggerCount = dv.getUint32(off, true); off += 4;
+    triggers = {
+      triggerPrices: take(Float64Array, triggerCount),
+      limitPrices: take(Float64Array, triggerCount),
+      sizes: take(Float64Array, triggerCount),
+      sides: take(Float32Array, triggerCount),
+      oids: take(Float64Array, triggerCount),
+      users: Array.from(take(Uint32Array, triggerCount), (id) => userTable[id]),
+      conditions: new Array(triggerCount),
+      count: triggerCount,
+    };
+    for (let i = 0; i < triggerCount; i++) {
+      const len = dv.getUint16(off, true); off += 2;
+      triggers.conditions[i] = decoder.decode(bytes.subarray(off, off + len));
+      off += len;
+    }
+  }
+
+  return {
+    meta: { coin, time, height },
+    bids: { prices: bidPrices, sizes: bidSizes, cumSizes: bidCumSizes },
+    asks: { prices: askPrices, sizes: askSizes, cumSizes: askCumSizes },
+    heatmap: {
+      prices: hmPrices,
+      yOffsets: hmYOffsets,
+      sizes: hmSizes,
+      sides: hmSides,
+      brightness: hmBrightness,
+      timestamps: hmTimestamps,
+      oids: hmOids,
+      users,
+      maxCumSize,
+      count,
+      timestampMin,
+      timestampMax,
+      tickSize,
+      dataPriceMin,
+      dataPriceMax,
+    },
+    triggers,
+  };
+}
+
+export function decodeL4Bin(buffer: ArrayBuffer): SnapshotView {
+  if (buffer.byteLength < HEADER_BYTES || !hasL4BinMagic(buffer)) {
+    throw new Error('Not an .l4bin file');
+  }
+  const dv = new DataView(buffer);
+  const version = dv.getUint16(4, true);
+  const payloadLength = dv.getUint32(8, true);
+  if (HEADER_BYTES + payloadLength > buffer.byteLength) throw new Error('Truncated .l4bin file');
+  const expected = dv.getUint32(12, true);
+  if (crc32(new Uint8Array(buffer, HEADER_BYTES, payloadLength)) !== expected) {
+    throw new Error('.l4bin checksum mismatch — file is corrupt');
+  }
+
+  switch (version) {
+    case 1:
+    case 2:
+    case 3:
+      return decodePayload(buffer, version);
+    default:
+      throw new Error(`Unsupported .l4bin version ${version} (this app reads up to ${L4BIN_VERSION})`);
+  }
+}
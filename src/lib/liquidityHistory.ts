@@ -0,0 +1,219 @@
+import type { SnapshotView } from './types';
+
+/// Price × time liquidity history for the history heatmap. Each column is one
+/// sample of the book's level sizes binned onto a fixed price grid, stored as
+/// interleaved (bid, ask) floats so it uploads straight into an RG32F texture
+/// row. Columns live in a ring; sampling is time-based (lookback / columns) so
+/// the window covers the configured lookback whatever the rebuild rate.
+///
+/// The grid is anchored around the first mid. When the mid drifts out of the
+/// middle of the grid, every column is shifted to re-centre it and the whole
+/// texture is re-uploaded.
+
+export const HISTORY_ROWS = 2048;
+export const HISTORY_COLUMNS = 600;
+
+export const HISTORY_LOOKBACKS = [
+  { label: '1m', ms: 60_000 },
+  { label: '5m', ms: 300_000 },
+  { label: '15m', ms: 900_000 },
+  { label: '1h', ms: 3_600_000 },
+];
+
+// Bin width as a fraction of mid (0.4 bps): the grid spans about ±4% around the anchor
+const BIN_FRACTION = 0.00004;
+// Re-anchor when the mid leaves the middle 60% of the grid
+const REANCHOR_MARGIN = 0.2;
+
+export type HistoryUploads = {
+  full: boolean;             // grid was re-anchored or cleared: upload every column
+  columns: number[];         // otherwise, the columns written since the last take
+};
+
+export type HistoryCell = {
+  time: number;              // ms — sample time of the column
+  price: number;             // bin centre
+  bid: number;
+  ask: number;
+};
+
+function bestPrices(view: SnapshotView) {
+  const bestBid = view.bids.prices.length > 0 ? view.bids.prices[0] : NaN;
+  const bestAsk = view.asks.prices.length > 0 ? view.asks.prices[0] : NaN;
+  return { bestBid, bestAsk };
+}
+
+export function createLiquidityHistory(initialLookbackMs: number = HISTORY_LOOKBACKS[1].ms) {
+  const stride = HISTORY_ROWS * 2;
+  const cells = new Float32Array(HISTORY_COLUMNS * stride);
+  const times = new Float64Array(HISTORY_COLUMNS);
+  const bestBids = new Float64Array(HISTORY_COLUMNS);
+  const bestAsks = new Float64Array(HISTORY_COLUMNS);
+
+  let lookbackMs = initialLookbackMs;
+  let head = 0;              // next column to write
+  let filled = 0;
+  let gridMin = 0;
+  let binSize = 0;
+  let coin = '';
+  let lastSampleTime = -Infinity;
+  let uploads: HistoryUploads = { full: true, columns: [] };
+
+  function clear() {
+    cells.fill(0);
+    times.fill(0);
+    bestBids.fill(NaN);
+    bestAsks.fill(NaN);
+    head = 0;
+    filled = 0;
+    binSize = 0;
+    lastSampleTime = -Infinity;
+    uploads = { full: true, columns: [] };
+  }
+
+  function anchor(mid: number) {
+    return Math.floor((mid - (HISTORY_ROWS / 2) * binSize) / binSize) * binSize;
+  }
+
+  function reanchor(mid: number) {
+    const next = anchor(mid);
+    const shift = Math.round((next - gridMin) / binSize);
+    gridMin = next;
+    if (shift === 0) return;
+    for (let c = 0; c < HISTORY_COLUMNS; c++) {
+      const start = c * stride;
+      const column = cells.subarray(start, start + stride);
+      if (Math.abs(shift) >= HISTORY_ROWS) {
+        column.fill(0);
+      } else if (shift > 0) {
+        column.copyWithin(0, shift * 2);
+        column.fill(0, stride - shift * 2);
+      } else {
+        column.copyWithin(-shift * 2, 0, stride + shift * 2);
+        column.fill(0, 0, -shift * 2);
+      }
+    }
+    uploads = { full: true, columns: [] };
+  }
+
+  function binSide(column: Float32Array, prices: Float64Array, sizes: Float64Array, channel: number) {
+    for (let i = 0; i < prices.length; i++) {
+      const row = Math.floor((prices[i] - gridMin) / binSize);
+      if (row < 0 || row >= HISTORY_ROWS) continue;
+      column[row * 2 + channel] += sizes[i];
+    }
+  }
+
+  clear();
+
+  return {
+    get lookbackMs() { return lookbackMs; },
+    get head() { return head; },
+    get filled() { return filled; },
+    get gridMin() { return gridMin; },
+    get binSize() { return binSize; },
+    get cells() { return cells; },
+    get times() { return times; },
+    get bestBids() { return bestBids; },
+    get bestAsks() { return bestAsks; },
+
+    /** Changing the lookback changes the sample spacing, so history starts over. */
+    setLookback(ms: number) {
+      if (ms === lookbackMs) return;
+      lookbackMs = ms;
+      clear();
+    },
+
+    /**
+     * Offer the latest book. Writes a column once the sample interval has
+     * passed (by block time). Returns true if a column was written.
+     */
+    sample(view: SnapshotView): boolean {
+      const time = view.meta.time;
+      // A new coin or a replay seek backwards invalidates the history
+      if (view.meta.coin !== coin || time < lastSampleTime) {
+        coin = view.meta.coin;
+        clear();
+      }
+      if (time - lastSampleTime < lookbackMs / HISTORY_COLUMNS) return false;
+
+      const { bestBid, bestAsk } = bestPrices(view);
+      const mid = bestBid && bestAsk ? (bestBid + bestAsk) / 2 : bestBid || bestAsk;
+      if (!Number.isFinite(mid) || mid <= 0) return false;
+
+      if (binSize === 0) {
+        binSize = Math.max(view.heatmap.tickSize, mid * BIN_FRACTION);
+        gridMin = anchor(mid);
+      } else {
+        const span = HISTORY_ROWS * binSize;
+        if (mid < gridMin + span * REANCHOR_MARGIN || mid > gridMin + span * (1 - REANCHOR_MARGIN)) {
+          reanchor(mid);
+        }
+      }
+
+      const column = cells.subarray(head * stride, (head + 1) * stride);
+      column.fill(0);
+      binSide(column, view.bids.prices, view.bids.sizes, 0);
+      binSide(column, view.asks.prices, view.asks.sizes, 1);
+      times[head] = time;
+      bestBids[head] = bestBid;
+      bestAsks[head] = bestAsk;
+      if (!uploads.full) uploads.columns.push(head);
+
+      head = (head + 1) % HISTORY_COLUMNS;
+      filled = Math.min(filled + 1, HISTORY_COLUMNS);
+      lastSampleTime = time;
+      return true;
+    },
+
+    /** Columns the GPU copy is missing; resets the pending set. */
+    takeUploads(): HistoryUploads {
+      const pending = uploads;
+      uploads = { full: false, columns: [] };
+      return pending;
+    },
+
+    /** Ring column `age` samples back from the newest (0 = newest). */
+    columnAt(age: number): number {
+      return (head - 1 - age + HISTORY_COLUMNS * 2) % HISTORY_COLUMNS;
+    },
+
+    /** Fractional grid row for a price. */
+    rowOf(price: number): number {
+      return binSize > 0 ? (price - gridMin) / binSize : 0;
+    },
+
+    cellAt(age: number, price: number): HistoryCell | null {
+      if (age < 0 || age >= filled || binSize === 0) return null;
+      const row = Math.floor((price - gridMin) / binSize);
+      if (row < 0 || row >= HISTORY_ROWS) return null;
+      const c = (head - 1 - age + HISTORY_COLUMNS * 2) % HISTORY_COLUMNS;
+      const off = c * stride + row * 2;
+      return { time: times[c], price: gridMin + (row + 0.5) * binSize, bid: cells[off], ask: cells[off + 1] };
+    },
+
+    /** Largest bin size within a row range over the newest `columns` samples (for colour scaling). */
+    maxSize(rowMin: number, rowMax: number, columns: number): number {
+      const r0 = Math.max(0, Math.floor(rowMin));
+      const r1 = Math.min(HISTORY_ROWS - 1, Math.ceil(rowMax));
+      let max = 0;
+      for (let age = 0; age < Math.min(columns, filled); age++) {
+        const base = ((head - 1 - age + HISTORY_COLUMNS * 2) % HISTORY_COLUMNS) * stride;
+        for (let r = r0; r <= r1; r++) {
+          const bid = cells[base + r * 2];
+          const ask = cells[base + r * 2 + 1];
+          if (bid > max) max = bid;
+          if (ask > max) max = ask;
+        }
+      }
+      return max;
+    },
+
+    reset() {
+      coin = '';
+      clear();
+    },
+  };
+}
+
+export type LiquidityHistory = ReturnType<typeof createLiquidityHistory>;
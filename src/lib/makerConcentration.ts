@@ -0,0 +1,105 @@
+import type { HeatmapData } from './types';
+
+/// Who holds the resting liquidity near mid. Orders within a bps band are
+/// aggregated per address; shares are of each side's depth inside the band,
+/// and the Herfindahl index (sum of squared notional shares, 0–10,000) says
+/// how concentrated that depth is — 10,000 is one maker, 1,000 is roughly
+/// ten equal ones.
+
+export const CONCENTRATION_BANDS = [10, 25, 50, 100, 200, Infinity];
+
+export type MakerRank = 'notional' | 'size';
+
+export type MakerStat = {
+  address: string;
+  bidSize: number;
+  askSize: number;
+  bidNotional: number;
+  askNotional: number;
+  orders: number;
+  bidShare: number;          // of bid notional in the band, 0–1
+  askShare: number;
+};
+
+export type ConcentrationReport = {
+  makers: MakerStat[];       // top N, largest first
+  makerCount: number;        // distinct addresses in the band
+  bidNotional: number;
+  askNotional: number;
+  bidHhi: number;
+  askHhi: number;
+  hhi: number;               // both sides together
+};
+
+function herfindahl(values: Iterable<number>, total: number): number {
+  if (total <= 0) return 0;
+  let sum = 0;
+  for (const v of values) {
+    const share = v / total;
+    sum += share * share;
+  }
+  return sum * 10_000;
+}
+
+/**
+ * Aggregate resting orders within `bandBps` of `mid` by address and rank the
+ * top `topN`. Orders without an address are skipped.
+ */
+export function analyzeConcentration(
+  data: HeatmapData,
+  mid: number,
+  bandBps: number,
+  topN: number,
+  rank: MakerRank = 'notional',
+): ConcentrationReport {
+  const byUser = new Map<string, MakerStat>();
+  let bidNotional = 0;
+  let askNotional = 0;
+
+  for (let i = 0; i < data.count; i++) {
+    const user = data.users[i];
+    if (!user) continue;
+    const price = data.prices[i];
+    if (bandBps !== Infinity && (!(mid > 0) || (Math.abs(price - mid) / mid) * 10_000 > bandBps)) continue;
+
+    const key = user.toLowerCase();
+    let stat = byUser.get(key);
+    if (!stat) {
+      stat = { address: user, bidSize: 0, askSize: 0, bidNotional: 0, askNotional: 0, orders: 0, bidShare: 0, askShare: 0 };
+      byUser.set(key, stat);
+    }
+    const size = data.sizes[i];
+    const notional = size * price;
+    if (data.sides[i] === 0) {
+      stat.bidSize += size;
+      stat.bidNotional += notional;
+      bidNotional += notional;
+    } else {
+      stat.askSize += size;
+      stat.askNotional += notional;
+      askNotional += notional;
+    }
+    stat.orders++;
+  }
+
+  const all = Array.from(byUser.values());
+  for (const stat of all) {
+    stat.bidShare = bidNotional > 0 ? stat.bidNotional / bidNotional : 0;
+    stat.askShare = askNotional > 0 ? stat.askNotional / askNotional : 0;
+  }
+
+  const score = rank === 'notional'
+    ? (s: MakerStat) => s.bidNotional + s.askNotional
+    : (s: MakerStat) => s.bidSize + s.askSize;
+  all.sort((a, b) => score(b) - score(a));
+
+  return {
+    makers: all.slice(0, topN),
+    makerCount: all.length,
+    bidNotional,
+    askNotional,
+    bidHhi: herfindahl(all.map((s) => s.bidNotional), bidNotional),
+    askHhi: herfindahl(all.map((s) => s.askNotional), askNotional),
+    hhi: herfindahl(all.map((s) => s.bidNotional + s.askNotional), bidNotional + askNotional),
+  };
+}
@@ -0,0 +1,138 @@
+import type { HeatmapData } from './types';
+
+/// Resting-order age distribution. Ages are measured from each order's
+/// timestamp to the view's block time, bucketed on a roughly ×3 log scale so
+/// freshly quoted size (seconds) and stale liquidity (hours) both get
+/// resolution.
+
+// Lower edges in ms; the last bucket is open-ended
+const AGE_EDGES = [
+  0, 1_000, 3_000, 10_000, 30_000, 60_000, 180_000, 600_000,
+  1_800_000, 3_600_000, 10_800_000, 43_200_000, 86_400_000,
+];
+
+export const DISTANCE_BANDS = [
+  { label: 'All', minBps: 0, maxBps: Infinity },
+  { label: '≤10bp', minBps: 0, maxBps: 10 },
+  { label: '10–50', minBps: 10, maxBps: 50 },
+  { label: '50–200', minBps: 50, maxBps: 200 },
+  { label: '>200', minBps: 200, maxBps: Infinity },
+];
+
+export type AgeFilter = {
+  minAge: number;            // ms, inclusive
+  maxAge: number;            // ms, exclusive (Infinity for the last bucket)
+};
+
+export type AgeBucket = AgeFilter & {
+  label: string;
+  bidSize: number;
+  askSize: number;
+  bidCount: number;
+  askCount: number;
+};
+
+export function fmtAge(ms: number): string {
+  if (ms >= 86_400_000) return `${ms / 86_400_000}d`;
+  if (ms >= 3_600_000) return `${ms / 3_600_000}h`;
+  if (ms >= 60_000) return `${ms / 60_000}m`;
+  return `${ms / 1000}s`;
+}
+
+function bucketOf(age: number): number {
+  let b = 0;
+  while (b + 1 < AGE_EDGES.length && age >= AGE_EDGES[b + 1]) b++;
+  return b;
+}
+
+/**
+ * Age histogram of the resting book at block time `now`. With a band, only
+ * orders whose distance from `mid` falls inside it are counted.
+ */
+export function buildAgeHistogram(
+  data: HeatmapData,
+  now: number,
+  mid: number,
+  band: { minBps: number; maxBps: number } = DISTANCE_BANDS[0],
+): AgeBucket[] {
+  const buckets: AgeBucket[] = AGE_EDGES.map((minAge, i) => {
+    const maxAge = AGE_EDGES[i + 1] ?? Infinity;
+    return {
+      label: maxAge === Infinity ? `≥${fmtAge(minAge)}` : `<${fmtAge(maxAge)}`,
+      minAge,
+      maxAge,
+      bidSize: 0,
+      askSize: 0,
+      bidCount: 0,
+      askCount: 0,
+    };
+  });
+  const banded = band.minBps > 0 || band.maxBps < Infinity;
+
+  for (let i = 0; i < data.count; i++) {
+    if (banded) {
+      if (!(mid > 0)) break;
+      const bps = (Math.abs(data.prices[i] - mid) / mid) * 10_000;
+      if (bps < band.minBps || bps >= band.maxBps) continue;
+    }
+    const bucket = buckets[bucketOf(Math.max(0, now - data.timestamps[i]))];
+    if (data.sides[i] === 0) {
+      bucket.bidSize += data.sizes[i];
+      bucket.bidCount++;
+    } else {
+      bucket.askSize += data.sizes[i];
+      bucket.askCount++;
+    }
+  }
+  return buckets;
+}
+
+/** True if an order placed at `timestamp` has an age at `now` inside the filter. */
+export function isInAgeFilter(timestamp: number, now: number, filter: AgeFilter): boolean {
+  const age = Math.max(0, now - timestamp);
+  return age >= filter.minAge && age < filter.maxAge;
+}
+
+/**
+ * Keep only orders whose age at `now` falls in the filter, restacking each
+ * (price, side) column so the survivors sit on the axis.
+ */
+export function filterHeatmapByAge(data: HeatmapData, now: number, filter: AgeFilter): HeatmapData {
+  const keep: number[] = [];
+  for (let i = 0; i < data.count; i++) {
+    if (isInAgeFilter(data.timestamps[i], now, filter)) keep.push(i);
+  }
+
+  const count = keep.length;
+  const prices = new Float32Array(count);
+  const yOffsets = new Float32Array(count);
+  const sizes = new Float32Array(count);
+  const sides = new Float32Array(count);
+  const brightness = new Float32Array(count);
+  const timestamps = new Float64Array(count);
+  const oids = new Float64Array(count);
+  const users: string[] = new Array(count);
+
+  // Input order is already oldest-first within each column
+  const columnTops = new Map<string, number>();
+  let maxCumSize = 0;
+  for (let j = 0; j < count; j++) {
+    const i = keep[j];
+    const key = `${data.prices[i]}:${data.sides[i]}`;
+    const offset = columnTops.get(key) ?? 0;
+    prices[j] = data.prices[i];
+    yOffsets[j] = offset;
+    sizes[j] = data.sizes[i];
+    sides[j] = data.sides[i];
+    brightness[j] = data.brightness[i];
+    timestamps[j] = data.timestamps[i];
+    oids[j] = data.oids[i];
+    users[j] = data.users[i];
+    const top = offset + data.sizes[i];
+    columnTops.set(key, top);
+    if (top > maxCumSize) maxCumSize = top;
+  }
+
+  // Keep the original price bounds so pan limits don't jump while filtering
+  return { ...data, prices, yOffsets, sizes, sides, brightness, timestamps, oids, users, maxCumSize, count };
+}
@@ -0,0 +1,168 @@
+import type { LifecycleStats, LifetimeBucket, OrderEvent, OrderHistory } from './types';
+import type { BookOrder, EngineOrderEvent } from './l4BookEngine';
+import { median } from './stats';
+
+/// Per-oid lifecycle history plus resting-lifetime statistics, fed by the
+/// engine's order events. Everything is bounded: the oldest histories are
+/// evicted first, each history keeps its latest events, and lifetime samples
+/// live in a ring so stats describe the recent past of a long session.
+
+const MAX_HISTORIES = 50_000;
+const MAX_EVENTS = 64;
+const MAX_SAMPLES = 20_000;
+
+// Lifetime-by-distance buckets, in bps from mid at first observation
+const BUCKET_EDGES = [0, 5, 10, 25, 50, 100, Infinity];
+
+type Sample = {
+  lifetimeMs: number;
+  distanceBps: number | null;
+  filled: boolean;
+};
+
+/** Lifecycle state at a point in time. Histories and samples are replaced, never mutated, so references suffice. */
+export type LifecycleCheckpoint = {
+  histories: [number, OrderHistory][];
+  samples: Sample[];
+  sampleHead: number;
+};
+
+function distanceBps(price: number, mid: number): number | null {
+  return mid > 0 ? (Math.abs(price - mid) / mid) * 10000 : null;
+}
+
+export function createOrderLifecycle() {
+  const histories = new Map<number, OrderHistory>();   // insertion order = eviction order
+  let samples: Sample[] = [];
+  let sampleHead = 0;                                   // next ring slot once full
+  let changed = false;
+
+  // The placement event comes from the order's own timestamp, so orders that
+  // were already resting in the snapshot still get a meaningful lifetime.
+  function startHistory(o: BookOrder, mid: number): OrderHistory {
+    const history: OrderHistory = {
+      oid: o.oid,
+      user: o.user,
+      side: o.side,
+      events: [{ kind: 'placed', time: o.timestamp, height: 0, price: o.price, size: o.size }],
+      truncated: false,
+      midDistanceBps: distanceBps(o.price, mid),
+      resting: true,
+    };
+    histories.set(o.oid, history);
+    if (histories.size > MAX_HISTORIES) histories.delete(histories.keys().next().value!);
+    return history;
+  }
+
+  function push(history: OrderHistory, event: OrderEvent, resting = history.resting) {
+    const events = [...history.events, event];
+    let truncated = history.truncated;
+    if (events.length > MAX_EVENTS) {
+      // Keep the placement event; drop the oldest after it
+      events.splice(1, 1);
+      truncated = true;
+    }
+    histories.set(history.oid, { ...history, events, truncated, resting });
+  }
+
+  function addSample(sample: Sample) {
+    if (samples.length < MAX_SAMPLES) {
+      samples.push(sample);
+    } else {
+      samples[sampleHead] = sample;
+      sampleHead = (sampleHead + 1) % MAX_SAMPLES;
+    }
+  }
+
+  return {
+    /** Record one engine event. `mid` is the mid price before the frame was applied. */
+    record(ev: EngineOrderEvent, height: number, mid: number) {
+      changed = true;
+      const o = ev.order;
+      if (ev.kind === 'placed') {
+        const history = startHistory(o, mid);
+        history.events[0].height = height;
+        return;
+      }
+
+      let history = histories.get(o.oid);
+      if (!history) history = startHistory(ev.prev ?? o, mid);
+
+      if (ev.kind === 'modified' || ev.kind === 'sizeReduced') {
+        const event: OrderEvent = { kind: ev.kind, time: ev.time, height, price: o.price, size: o.size };
+        if (ev.kind === 'sizeReduced' && ev.prev) event.reducedBy = ev.prev.size - o.size;
+        push(history, event);
+        return;
+      }
+
+      // Fully filled or canceled: the order's life is over
+      push(history, { kind: ev.kind, time: ev.time, height, price: o.price, size: o.size, status: ev.status }, false);
+      addSample({
+        lifetimeMs: Math.max(0, ev.time - history.events[0].time),
+        distanceBps: history.midDistanceBps,
+        filled: ev.kind === 'filled',
+      });
+    },
+
+    /** History for an oid, started from the resting order if nothing has happened to it yet. */
+    history(oid: number, resting: BookOrder | undefined, mid: number): OrderHistory | null {
+      const history = histories.get(oid);
+      if (history) return history;
+      return resting ? startHistory(resting, mid) : null;
+    },
+
+    /** True if anything changed since the last stats(). */
+    get changed() {
+      return changed;
+    },
+
+    stats(): LifecycleStats {
+      changed = false;
+      let fills = 0;
+      const lifetimes: number[] = [];
+      const perBucket: number[][] = BUCKET_EDGES.slice(1).map(() => []);
+      for (const s of samples) {
+        if (s.filled) fills++;
+        lifetimes.push(s.lifetimeMs);
+        if (s.distanceBps === null) continue;
+        let b = 0;
+        while (s.distanceBps >= BUCKET_EDGES[b + 1]) b++;
+        perBucket[b].push(s.lifetimeMs);
+      }
+      const cancels = samples.length - fills;
+      const byDistance: LifetimeBucket[] = perBucket.map((values, b) => ({
+        minBps: BUCKET_EDGES[b],
+        maxBps: BUCKET_EDGES[b + 1],
+        count: values.length,
+        medianMs: median(values),
+      }));
+      return {
+        completed: samples.length,
+        cancels,
+        fills,
+        cancelToFill: fills > 0 ? cancels / fills : null,
+        medianLifetimeMs: median(lifetimes),
+        byDistance,
+      };
+    },
+
+    checkpoint(): LifecycleCheckpoint {
+      return { histories: Array.from(histories), samples: samples.slice(), sampleHead };
+    },
+
+    restore(cp: LifecycleCheckpoint) {
+      histories.clear();
+      for (const [oid, history] of cp.histories) histories.set(oid, history);
+      samples = cp.samples.slice();
+      sampleHead = cp.sampleHead;
+      changed = true;
+    },
+
+    reset() {
+      histories.clear();
+      samples = [];
+      sampleHead = 0;
+      changed = true;
+    },
+  };
+}
@@ -1,4 +1,6 @@
-import type { HeatmapData, ViewRange, TrackedAddress } from "./types";
+import type { HeatmapData, ViewRange, TrackedAddress, TriggerLayer, SpoofCandidate } from "./types";
+import type { SweepResult } from "./slippage";
+import { fmtNotional, fmtPrice, fmtSize } from "./format";
 
 export type OverlayState = {
   mouseX: number;
@@ -15,6 +17,7 @@ export type NearestOrder = {
   timestamp: number; // denormalized ms
   index: number;
   user: string;
+  oid: number;       // NaN when the data carries no order ids
 };
 
 /** Compute "nice" tick values for axis labels */
@@ -30,7 +33,7 @@ function niceStep(range: number, maxTicks: number): number {
   return nice * pow;
 }
 
-function generateTicks(min: number, max: number, maxTicks: number): number[] {
+export function generateTicks(min: number, max: number, maxTicks: number): number[] {
   const step = niceStep(max - min, maxTicks);
   const start = Math.ceil(min / step) * step;
   const ticks: number[] = [];
@@ -40,26 +43,6 @@ function generateTicks(min: number, max: number, maxTicks: number): number[] {
   return ticks;
 }
 
-function fmtPrice(p: number): string {
-  if (p >= 10000) return p.toFixed(0);
-  if (p >= 100) return p.toFixed(1);
-  if (p >= 1) return p.toFixed(2);
-  return p.toFixed(4);
-}
-
-function fmtSize(s: number): string {
-  if (s >= 1000) return s.toFixed(1);
-  if (s >= 100) return s.toFixed(2);
-  if (s >= 1) return s.toFixed(4);
-  return s.toFixed(5);
-}
-
-function fmtNotional(n: number): string {
-  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(2)}M`;
-  if (n >= 1_000) return `$${(n / 1_000).toFixed(1)}K`;
-  return `$${n.toFixed(2)}`;
-}
-
 function fmtDuration(ms: number): string {
   if (ms < 0) ms = 0;
   const d = Math.floor(ms / 86_400_000);
@@ -139,11 +122,271 @@ export function findNearestOrder(
     side: data.sides[bestIdx] === 0 ? "Bid" : "Ask",
     brightness: data.brightness[bestIdx],
     timestamp: data.timestamps[bestIdx],
+    oid: data.oids[bestIdx],
     index: bestIdx,
     user: data.users[bestIdx],
   };
 }
 
+/** Tooltip box near the cursor; `lastLineColor` tints the final (address) line. */
+export function drawTooltip(
+  ctx: CanvasRenderingContext2D,
+  lines: string[],
+  headerColor: string,
+  lastLineColor: string | null,
+  mx: number,
+  my: number,
+  canvasWidth: number,
+) {
+  ctx.font = "24px monospace";
+  const lineH = 33;
+  const pad = 14;
+  const w = Math.max(...lines.map((l) => ctx.measureText(l).width)) + pad * 2;
+  const h = lines.length * lineH + pad * 2;
+
+  // Position tooltip: avoid going off-canvas
+  let tx = mx + 30;
+  let ty = my - h - 15;
+  if (tx + w > canvasWidth) tx = mx - w - 30;
+  if (ty < 0) ty = my + 30;
+
+  ctx.fillStyle = "rgba(17,22,33,0.92)";
+  ctx.strokeStyle = "rgba(107,122,141,0.4)";
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.roundRect(tx, ty, w, h, 6);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = headerColor;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  ctx.fillText(lines[0], tx + pad, ty + pad);
+
+  ctx.fillStyle = "#c5cdd9";
+  for (let i = 1; i < lines.length; i++) {
+    if (i === lines.length - 1 && lastLineColor) ctx.fillStyle = lastLineColor;
+    ctx.fillText(lines[i], tx + pad, ty + pad + i * lineH);
+  }
+}
+
+// --- Trigger layer ---
+
+type StackedTriggers = {
+  prices: Float64Array;    // trigger price snapped to the display tick
+  yOffsets: Float64Array;  // stacked per (price, side) column, like resting orders
+};
+
+/** Stack trigger orders into tick columns so they read like the resting book. */
+export function stackTriggers(layer: TriggerLayer, tickSize: number): StackedTriggers {
+  const prices = new Float64Array(layer.count);
+  const yOffsets = new Float64Array(layer.count);
+  const columnTops = new Map<string, number>();
+  for (let i = 0; i < layer.count; i++) {
+    const price = Math.round(layer.triggerPrices[i] / tickSize) * tickSize;
+    const key = `${price}:${layer.sides[i]}`;
+    const bottom = columnTops.get(key) ?? 0;
+    prices[i] = price;
+    yOffsets[i] = bottom;
+    columnTops.set(key, bottom + layer.sizes[i]);
+  }
+  return { prices, yOffsets };
+}
+
+/** Index of the trigger order under the cursor, or -1. */
+export function findTriggerAt(
+  layer: TriggerLayer,
+  stacked: StackedTriggers,
+  range: ViewRange,
+  tickSize: number,
+  fx: number,
+  fy: number,
+): number {
+  const targetPrice = range.priceMin + fx * (range.priceMax - range.priceMin);
+  const targetY = range.yMax - fy * (range.yMax - range.yMin);
+  const halfTick = tickSize / 2;
+  for (let i = 0; i < layer.count; i++) {
+    if (Math.abs(stacked.prices[i] - targetPrice) > halfTick) continue;
+    const bot = stacked.yOffsets[i];
+    if (targetY >= bot && targetY <= bot + layer.sizes[i]) return i;
+  }
+  return -1;
+}
+
+function drawTriggers(
+  ctx: CanvasRenderingContext2D,
+  range: ViewRange,
+  layer: TriggerLayer,
+  stacked: StackedTriggers,
+  tickSize: number,
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  const priceRange = range.priceMax - range.priceMin;
+  const yRange = range.yMax - range.yMin;
+  if (priceRange <= 0 || yRange <= 0) return;
+
+  const halfTick = tickSize / 2;
+  const barW = Math.max((tickSize / priceRange) * canvasWidth, 1);
+  ctx.setLineDash([3, 3]);
+  ctx.lineWidth = 1.5;
+  for (const side of [0, 1]) {
+    ctx.strokeStyle = side === 0 ? "rgba(0,200,83,0.9)" : "rgba(255,23,68,0.9)";
+    ctx.fillStyle = side === 0 ? "rgba(0,200,83,0.12)" : "rgba(255,23,68,0.12)";
+    ctx.beginPath();
+    for (let i = 0; i < layer.count; i++) {
+      if (layer.sides[i] !== side) continue;
+      const price = stacked.prices[i];
+      if (price + halfTick < range.priceMin || price - halfTick > range.priceMax) continue;
+      const bot = stacked.yOffsets[i];
+      const top = bot + layer.sizes[i];
+      if (top < range.yMin || bot > range.yMax) continue;
+      const x = ((price - range.priceMin) / priceRange) * canvasWidth - barW / 2;
+      const yTop = ((range.yMax - top) / yRange) * canvasHeight;
+      const yBot = ((range.yMax - bot) / yRange) * canvasHeight;
+      ctx.rect(x, yTop, barW, yBot - yTop);
+    }
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+}
+
+const MAX_OUTLINES = 5000;
+
+/** Stroke a second book's orders (provider comparison) over the heatmap. */
+function drawOutlines(
+  ctx: CanvasRenderingContext2D,
+  range: ViewRange,
+  data: HeatmapData,
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  const priceRange = range.priceMax - range.priceMin;
+  const yRange = range.yMax - range.yMin;
+  if (priceRange <= 0 || yRange <= 0) return;
+
+  const halfTick = data.tickSize / 2;
+  const barW = Math.max((data.tickSize / priceRange) * canvasWidth, 1);
+  ctx.strokeStyle = "rgba(255,255,255,0.55)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  let drawn = 0;
+  for (let i = 0; i < data.count && drawn < MAX_OUTLINES; i++) {
+    const price = data.prices[i];
+    if (price + halfTick < range.priceMin || price - halfTick > range.priceMax) continue;
+    const bot = data.yOffsets[i];
+    const top = bot + data.sizes[i];
+    if (top < range.yMin || bot > range.yMax) continue;
+    const x = ((price - range.priceMin) / priceRange) * canvasWidth - barW / 2;
+    const yTop = ((range.yMax - top) / yRange) * canvasHeight;
+    const yBot = ((range.yMax - bot) / yRange) * canvasHeight;
+    ctx.rect(x, yTop, barW, yBot - yTop);
+    drawn++;
+  }
+  ctx.stroke();
+}
+
+/** Refill-series badges (oid → refill count) above the bar of each order still resting. */
+function drawRefillBadges(
+  ctx: CanvasRenderingContext2D,
+  range: ViewRange,
+  data: HeatmapData,
+  badges: Map<number, number>,
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  const priceRange = range.priceMax - range.priceMin;
+  const yRange = range.yMax - range.yMin;
+  if (priceRange <= 0 || yRange <= 0 || badges.size === 0) return;
+
+  ctx.font = "13px monospace";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  for (let i = 0; i < data.count; i++) {
+    const refills = badges.get(data.oids[i]);
+    if (refills === undefined) continue;
+    const price = data.prices[i];
+    const top = data.yOffsets[i] + data.sizes[i];
+    if (price < range.priceMin || price > range.priceMax || top < range.yMin) continue;
+    const x = ((price - range.priceMin) / priceRange) * canvasWidth;
+    const y = Math.max(12, ((range.yMax - top) / yRange) * canvasHeight - 12);
+    const label = `↻${refills}`;
+    const w = ctx.measureText(label).width + 8;
+    ctx.fillStyle = "rgba(255,193,7,0.9)";
+    ctx.beginPath();
+    ctx.roundRect(x - w / 2, y - 9, w, 18, 4);
+    ctx.fill();
+    ctx.fillStyle = "#111621";
+    ctx.fillText(label, x, y);
+  }
+}
+
+// Flagged spoof-like cancels: a magenta tick on the top edge at each price,
+// newest brightest. The orders are gone, so there's no bar to attach to.
+function drawSpoofMarkers(
+  ctx: CanvasRenderingContext2D,
+  range: ViewRange,
+  markers: SpoofCandidate[],
+  canvasWidth: number,
+) {
+  const priceRange = range.priceMax - range.priceMin;
+  if (priceRange <= 0 || markers.length === 0) return;
+
+  for (let i = markers.length - 1; i >= 0; i--) {
+    const m = markers[i];
+    if (m.price < range.priceMin || m.price > range.priceMax) continue;
+    const x = ((m.price - range.priceMin) / priceRange) * canvasWidth;
+    ctx.fillStyle = `rgba(224,64,251,${(1 - (i / markers.length) * 0.8).toFixed(2)})`;
+    ctx.beginPath();
+    ctx.moveTo(x - 6, 0);
+    ctx.lineTo(x + 6, 0);
+    ctx.lineTo(x, 10);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
+
+// Market-order sweep from the slippage calculator: solid at the worst price
+// reached, dashed at the average fill
+function drawSweepMarker(
+  ctx: CanvasRenderingContext2D,
+  range: ViewRange,
+  sweep: SweepResult,
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  const priceRange = range.priceMax - range.priceMin;
+  if (priceRange <= 0) return;
+  const toX = (p: number) => ((p - range.priceMin) / priceRange) * canvasWidth;
+
+  ctx.strokeStyle = "#ffc107";
+  ctx.fillStyle = "#ffc107";
+  ctx.lineWidth = 2;
+  ctx.font = "13px monospace";
+  ctx.textBaseline = "top";
+  const worstX = toX(sweep.worstPrice);
+  ctx.beginPath();
+  ctx.moveTo(worstX, 0);
+  ctx.lineTo(worstX, canvasHeight);
+  ctx.stroke();
+
+  ctx.lineWidth = 1;
+  ctx.setLineDash([6, 4]);
+  const avgX = toX(sweep.avgPrice);
+  ctx.beginPath();
+  ctx.moveTo(avgX, 0);
+  ctx.lineTo(avgX, canvasHeight);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Labels sit on the far side of each line from the touch
+  const outward = sweep.side === "buy" ? 1 : -1;
+  ctx.textAlign = outward > 0 ? "left" : "right";
+  ctx.fillText(`${sweep.complete ? "" : "book exhausted · "}${sweep.slippageBps.toFixed(1)} bps`, worstX + 6 * outward, 16);
+  ctx.fillText("avg", avgX + 4 * outward, 34);
+}
+
 export function renderOverlay(
   ctx: CanvasRenderingContext2D,
   range: ViewRange,
@@ -152,6 +395,11 @@ export function renderOverlay(
   canvasWidth: number,
   canvasHeight: number,
   trackedAddresses?: TrackedAddress[],
+  outlines?: HeatmapData,
+  triggers?: TriggerLayer,
+  refillBadges?: Map<number, number>,
+  spoofMarkers?: SpoofCandidate[],
+  sweep?: SweepResult | null,
 ) {
   ctx.clearRect(0, 0, canvasWidth, canvasHeight);
 
@@ -210,6 +458,13 @@ export function renderOverlay(
     ctx.fillText(fmtSize(v), 6, y + 3);
   }
 
+  if (outlines) drawOutlines(ctx, range, outlines, canvasWidth, canvasHeight);
+  const stacked = triggers ? stackTriggers(triggers, data.tickSize) : null;
+  if (triggers && stacked) drawTriggers(ctx, range, triggers, stacked, data.tickSize, canvasWidth, canvasHeight);
+  if (refillBadges) drawRefillBadges(ctx, range, data, refillBadges, canvasWidth, canvasHeight);
+  if (spoofMarkers) drawSpoofMarkers(ctx, range, spoofMarkers, canvasWidth);
+  if (sweep) drawSweepMarker(ctx, range, sweep, canvasWidth, canvasHeight);
+
   if (!state.visible) return;
 
   // Crosshair
@@ -256,9 +511,31 @@ export function renderOverlay(
   ctx.textBaseline = "middle";
   ctx.fillText(yLabel, 6, my);
 
-  // Nearest order tooltip
   const fx = mx / canvasWidth;
   const fy = my / canvasHeight;
+
+  // Trigger orders sit on top of the book, so they win the tooltip
+  if (triggers && stacked) {
+    const t = findTriggerAt(triggers, stacked, range, data.tickSize, fx, fy);
+    if (t >= 0) {
+      const user = triggers.users[t];
+      const trackedMatch = trackedAddresses?.find(
+        (a) => a.address.toLowerCase() === user.toLowerCase(),
+      );
+      const lines = [
+        `Trigger ${triggers.sides[t] === 0 ? "Bid" : "Ask"}  $${fmtPrice(triggers.triggerPrices[t])}`,
+        `Limit: $${fmtPrice(triggers.limitPrices[t])}`,
+        `Size: ${fmtSize(triggers.sizes[t])}`,
+        triggers.conditions[t] || "No condition",
+      ];
+      if (user) lines.push(`${user.slice(0, 6)}...${user.slice(-4)}`);
+      const headerColor = triggers.sides[t] === 0 ? "#00c853" : "#ff1744";
+      drawTooltip(ctx, lines, headerColor, user ? trackedMatch?.color ?? null : null, mx, my, canvasWidth);
+      return;
+    }
+  }
+
+  // Nearest order tooltip
   const nearest = findNearestOrder(data, range, fx, fy);
   if (nearest) {
     // Outline the hovered order bar
@@ -296,50 +573,18 @@ export function renderOverlay(
       `Ntl: ${fmtNotional(orderNotional)}  /  ${fmtNotional(levelNotional)}`,
       `T - ${fmtDuration(data.timestampMax - nearest.timestamp)}`,
     ];
+    const refills = refillBadges?.get(nearest.oid);
+    if (refills !== undefined) lines.push(`Refilled ${refills}x after fills`);
     if (truncAddr) {
       lines.push(truncAddr);
     }
 
-    ctx.font = "24px monospace";
-    const lineH = 33;
-    const pad = 14;
-    const w = Math.max(...lines.map((l) => ctx.measureText(l).width)) + pad * 2;
-    const h = lines.length * lineH + pad * 2;
-
-    // Position tooltip: avoid going off-canvas
-    let tx = mx + 30;
-    let ty = my - h - 15;
-    if (tx + w > canvasWidth) tx = mx - w - 30;
-    if (ty < 0) ty = my + 30;
-
-    ctx.fillStyle = "rgba(17,22,33,0.92)";
-    ctx.strokeStyle = "rgba(107,122,141,0.4)";
-    ctx.lineWidth = 1.5;
-    ctx.beginPath();
-    ctx.roundRect(tx, ty, w, h, 6);
-    ctx.fill();
-    ctx.stroke();
-
     // Header color: tracked color if matched, otherwise default bid/ask
-    ctx.fillStyle = trackedMatch
+    const headerColor = trackedMatch
       ? trackedMatch.color
       : nearest.side === "Bid"
         ? "#00c853"
         : "#ff1744";
-    ctx.textAlign = "left";
-    ctx.textBaseline = "top";
-    ctx.fillText(lines[0], tx + pad, ty + pad);
-
-    ctx.fillStyle = "#c5cdd9";
-    for (let i = 1; i < lines.length; i++) {
-      // Use tracked color for the address line
-      if (i === lines.length - 1 && trackedMatch) {
-        ctx.fillStyle = trackedMatch.color;
-      }
-      ctx.fillText(lines[i], tx + pad, ty + pad + i * lineH);
-      if (i === lines.length - 1 && trackedMatch) {
-        ctx.fillStyle = "#c5cdd9";
-      }
-    }
+    drawTooltip(ctx, lines, headerColor, trackedMatch?.color ?? null, mx, my, canvasWidth);
   }
 }
@@ -0,0 +1,61 @@
+import type { HeatmapData } from './types';
+import { isInAgeFilter, type AgeFilter } from './orderAge';
+
+/// Per-level breakdown for the vertical price ladder, built from the same
+/// (regrouped) heatmap the WebGL view draws so rows and bars line up exactly.
+
+export type LadderLevel = {
+  price: number;
+  side: number;          // 0=bid, 1=ask
+  size: number;
+  cumSize: number;       // from the touch outwards
+  orderCount: number;
+  largestOrder: number;
+  trackedShare: number;  // fraction of size held by tracked addresses, 0–1
+};
+
+/**
+ * Levels sorted from the highest price to the lowest (asks above bids), as a
+ * ladder reads top to bottom. `tracked` holds lowercased addresses. With an
+ * age filter, only orders the heatmap shows at block time `now` are counted.
+ */
+export function buildLadder(
+  data: HeatmapData,
+  tracked: Set<string>,
+  ageFilter: AgeFilter | null = null,
+  now = 0,
+): LadderLevel[] {
+  const bids = new Map<number, LadderLevel>();
+  const asks = new Map<number, LadderLevel>();
+
+  for (let i = 0; i < data.count; i++) {
+    if (ageFilter && !isInAgeFilter(data.timestamps[i], now, ageFilter)) continue;
+    const side = data.sides[i];
+    const price = data.prices[i];
+    const size = data.sizes[i];
+    const levels = side === 0 ? bids : asks;
+    let level = levels.get(price);
+    if (!level) {
+      level = { price, side, size: 0, cumSize: 0, orderCount: 0, largestOrder: 0, trackedShare: 0 };
+      levels.set(price, level);
+    }
+    level.size += size;
+    level.orderCount++;
+    if (size > level.largestOrder) level.largestOrder = size;
+    // Accumulate tracked size here; converted to a share below
+    if (tracked.size > 0 && tracked.has(data.users[i]?.toLowerCase())) level.trackedShare += size;
+  }
+
+  const bidLevels = Array.from(bids.values()).sort((a, b) => b.price - a.price);
+  const askLevels = Array.from(asks.values()).sort((a, b) => a.price - b.price);
+  for (const side of [bidLevels, askLevels]) {
+    let cum = 0;
+    for (const level of side) {
+      cum += level.size;
+      level.cumSize = cum;
+      level.trackedShare = level.size > 0 ? level.trackedShare / level.size : 0;
+    }
+  }
+
+  return askLevels.reverse().concat(bidLevels);
+}
@@ -0,0 +1,136 @@
+import type { RefillReport, RefillSeries } from './types';
+import type { EngineOrderEvent } from './l4BookEngine';
+
+/// Iceberg / refill detection from the engine's order events. When an order
+/// is fully filled and the same address places a new order on the same side
+/// at the same price shortly afterwards, that's a refill; a run of them at
+/// one (address, side, price) is a series. Series with enough refills are
+/// reported — their displayed size understates what's really there.
+///
+/// Everything is keyed by block time, so replays detect the same series as
+/// the live session did.
+
+const REFILL_WINDOW_MS = 2_000;    // fill → re-place delay still counted as a refill
+const MIN_REFILLS = 2;              // refills before a series is reported
+const SERIES_TTL_MS = 600_000;      // forget series idle this long
+const MAX_SERIES = 5_000;
+const MAX_REPORTED = 50;
+
+type PendingFill = {
+  time: number;
+  size: number;
+};
+
+type Series = RefillSeries & {
+  totalDelayMs: number;
+};
+
+/** Detector state at a point in time. Fills and series are replaced, never mutated, so references suffice. */
+export type RefillCheckpoint = {
+  pendingFills: [string, PendingFill][];
+  series: [string, Series][];
+  lastPrune: number;
+};
+
+function seriesKey(user: string, side: number, price: number): string {
+  return `${user.toLowerCase()}:${side}:${price}`;
+}
+
+export function createRefillDetector() {
+  const pendingFills = new Map<string, PendingFill>();
+  const series = new Map<string, Series>();   // insertion order ≈ age, for eviction
+  let changed = false;
+  let lastPrune = 0;
+
+  function prune(now: number) {
+    if (now - lastPrune < REFILL_WINDOW_MS) return;
+    lastPrune = now;
+    for (const [key, fill] of pendingFills) {
+      if (now - fill.time > REFILL_WINDOW_MS) pendingFills.delete(key);
+    }
+    for (const [key, s] of series) {
+      if (now - s.lastTime > SERIES_TTL_MS) {
+        series.delete(key);
+        changed = true;
+      }
+    }
+  }
+
+  return {
+    /** Record one engine event (full fills and placements matter; the rest are ignored). */
+    record(ev: EngineOrderEvent) {
+      const o = ev.order;
+      if (!o.user) return;
+      prune(ev.time);
+
+      if (ev.kind === 'filled') {
+        pendingFills.set(seriesKey(o.user, o.side, o.price), { time: ev.time, size: o.size });
+        return;
+      }
+      if (ev.kind !== 'placed') return;
+
+      const key = seriesKey(o.user, o.side, o.price);
+      const fill = pendingFills.get(key);
+      if (!fill) return;
+      pendingFills.delete(key);
+      const delay = ev.time - fill.time;
+      if (delay < 0 || delay > REFILL_WINDOW_MS) return;
+
+      const prev = series.get(key);
+      const refills = (prev?.refills ?? 0) + 1;
+      const totalDelayMs = (prev?.totalDelayMs ?? 0) + delay;
+      series.set(key, {
+        user: o.user,
+        side: o.side,
+        price: o.price,
+        refills,
+        refilledSize: (prev?.refilledSize ?? 0) + o.size,
+        filledSize: (prev?.filledSize ?? 0) + fill.size,
+        avgDelayMs: totalDelayMs / refills,
+        totalDelayMs,
+        firstTime: prev?.firstTime ?? fill.time,
+        lastTime: ev.time,
+        oid: o.oid,
+      });
+      if (!prev && series.size > MAX_SERIES) series.delete(series.keys().next().value!);
+      if (refills >= MIN_REFILLS) changed = true;
+    },
+
+    /** True if the report may have changed since the last report(). */
+    get changed() {
+      return changed;
+    },
+
+    report(): RefillReport {
+      changed = false;
+      const detected: RefillSeries[] = [];
+      for (const s of series.values()) {
+        if (s.refills < MIN_REFILLS) continue;
+        const { totalDelayMs: _, ...out } = s;
+        detected.push(out);
+      }
+      detected.sort((a, b) => b.refilledSize * b.price - a.refilledSize * a.price);
+      return { series: detected.slice(0, MAX_REPORTED), total: detected.length };
+    },
+
+    checkpoint(): RefillCheckpoint {
+      return { pendingFills: Array.from(pendingFills), series: Array.from(series), lastPrune };
+    },
+
+    restore(cp: RefillCheckpoint) {
+      pendingFills.clear();
+      for (const [key, fill] of cp.pendingFills) pendingFills.set(key, fill);
+      series.clear();
+      for (const [key, s] of cp.series) series.set(key, s);
+      lastPrune = cp.lastPrune;
+      changed = true;
+    },
+
+    reset() {
+      pendingFills.clear();
+      series.clear();
+      lastPrune = 0;
+      changed = true;
+    },
+  };
+}
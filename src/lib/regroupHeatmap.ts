@@ -43,6 +43,7 @@ export function regroupHeatmap(original: HeatmapData, newTickSize: number): Heat
   const newSides = new Float32Array(count);
   const newBrightness = new Float32Array(count);
   const newTimestamps = new Float64Array(count);
+  const newOids = new Float64Array(count);
   const newUsers: string[] = new Array(count);
 
   let idx = 0;
@@ -62,6 +63,7 @@ export function regroupHeatmap(original: HeatmapData, newTickSize: number): Heat
       newSides[idx] = original.sides[oi];
       newBrightness[idx] = original.brightness[oi];
       newTimestamps[idx] = original.timestamps[oi];
+      newOids[idx] = original.oids[oi];
       newUsers[idx] = original.users[oi];
       cumOffset += original.sizes[oi];
       idx++;
@@ -80,6 +82,7 @@ export function regroupHeatmap(original: HeatmapData, newTickSize: number): Heat
     sides: newSides,
     brightness: newBrightness,
     timestamps: newTimestamps,
+    oids: newOids,
     users: newUsers,
     maxCumSize,
     count,
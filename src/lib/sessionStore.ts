@@ -0,0 +1,115 @@
+import type { RecordingSession } from './types';
+
+/// IndexedDB-backed store for recorded l4Book stream sessions.
+/// Sessions hold metadata; raw messages are appended in NDJSON chunks so a
+/// busy stream costs one transaction per flush rather than one per message.
+
+const DB_NAME = 'l4book-recordings';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const CHUNKS = 'chunks';
+
+type ChunkRecord = {
+  sessionId: number;
+  seq: number;
+  text: string;     // newline-terminated NDJSON lines
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS)) {
+        db.createObjectStore(CHUNKS, { keyPath: ['sessionId', 'seq'] });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+export async function createSession(coin: string, url: string): Promise<RecordingSession> {
+  const db = await openDb();
+  const session: Omit<RecordingSession, 'id'> = {
+    coin,
+    url,
+    startedAt: Date.now(),
+    endedAt: null,
+    messageCount: 0,
+    byteCount: 0,
+  };
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const id = await promisify(tx.objectStore(SESSIONS).add(session)) as number;
+  await txDone(tx);
+  return { id, ...session };
+}
+
+/** Append a chunk of NDJSON lines and update the session counters atomically. `bytes` is the UTF-8 length of `text`. */
+export async function appendChunk(session: RecordingSession, seq: number, text: string, messages: number, bytes: number) {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+  const chunk: ChunkRecord = { sessionId: session.id, seq, text };
+  tx.objectStore(CHUNKS).put(chunk);
+  session.messageCount += messages;
+  session.byteCount += bytes;
+  tx.objectStore(SESSIONS).put(session);
+  await txDone(tx);
+}
+
+export async function finishSession(session: RecordingSession) {
+  const db = await openDb();
+  session.endedAt = Date.now();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  await txDone(tx);
+}
+
+export async function listSessions(): Promise<RecordingSession[]> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, 'readonly');
+  const sessions = await promisify(tx.objectStore(SESSIONS).getAll()) as RecordingSession[];
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** Concatenate a session's chunks, in order, into a single NDJSON blob. */
+export async function readSessionBlob(sessionId: number): Promise<Blob> {
+  const db = await openDb();
+  const tx = db.transaction(CHUNKS, 'readonly');
+  const range = IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+  const chunks = await promisify(tx.objectStore(CHUNKS).getAll(range)) as ChunkRecord[];
+  return new Blob(chunks.map((c) => c.text), { type: 'application/x-ndjson' });
+}
+
+export async function deleteSession(sessionId: number) {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(sessionId);
+  tx.objectStore(CHUNKS).delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]));
+  await txDone(tx);
+}
@@ -0,0 +1,86 @@
+import type { SideData, SnapshotView } from './types';
+
+/// Market-order sweep simulation: walk one side of the book from the touch
+/// until the requested size or notional is filled. Buys consume asks, sells
+/// consume bids. Slippage is the average fill price's distance from mid, in
+/// bps, signed so that paying away from mid is positive on either side.
+
+export type SweepUnit = 'size' | 'notional';
+
+export type SweepOrder = {
+  side: 'buy' | 'sell';
+  unit: SweepUnit;
+  amount: number;            // base size or quote notional, per `unit`
+};
+
+export type SweepResult = {
+  side: 'buy' | 'sell';
+  filledSize: number;
+  filledNotional: number;
+  avgPrice: number;
+  bestPrice: number;         // touch on the consumed side
+  worstPrice: number;        // last level touched
+  mid: number;
+  slippageBps: number;       // avg vs mid
+  touchSlippageBps: number;  // avg vs the touch
+  levels: number;            // levels consumed, the last one possibly partly
+  complete: boolean;         // false if the side ran out first
+};
+
+/** Simulate `order` against the book. Null when the side to consume is empty or the amount isn't positive. */
+export function simulateSweep(view: Pick<SnapshotView, 'bids' | 'asks'>, order: SweepOrder): SweepResult | null {
+  const book: SideData = order.side === 'buy' ? view.asks : view.bids;
+  const n = book.prices.length;
+  if (n === 0 || !(order.amount > 0)) return null;
+
+  const bestPrice = book.prices[0];
+  const bestBid = view.bids.prices.length > 0 ? view.bids.prices[0] : NaN;
+  const bestAsk = view.asks.prices.length > 0 ? view.asks.prices[0] : NaN;
+  const mid = Number.isFinite(bestBid) && Number.isFinite(bestAsk) ? (bestBid + bestAsk) / 2 : bestPrice;
+
+  let filledSize = 0;
+  let filledNotional = 0;
+  let levels = 0;
+  if (order.unit === 'size') {
+    // cumSizes is running size from the touch: binary search the last level needed
+    let lo = 0;
+    let hi = n - 1;
+    while (lo < hi) {
+      const m = (lo + hi) >> 1;
+      if (book.cumSizes[m] < order.amount) lo = m + 1;
+      else hi = m;
+    }
+    levels = lo + 1;
+    for (let i = 0; i < lo; i++) filledNotional += book.prices[i] * book.sizes[i];
+    const before = lo > 0 ? book.cumSizes[lo - 1] : 0;
+    const last = Math.min(order.amount, book.cumSizes[lo]) - before;
+    filledSize = before + last;
+    filledNotional += last * book.prices[lo];
+  } else {
+    for (let i = 0; i < n && filledNotional < order.amount; i++) {
+      const levelNotional = book.prices[i] * book.sizes[i];
+      const take = Math.min(levelNotional, order.amount - filledNotional);
+      filledNotional += take;
+      filledSize += take / book.prices[i];
+      levels = i + 1;
+    }
+  }
+
+  const target = order.unit === 'size' ? filledSize : filledNotional;
+  const avgPrice = filledNotional / filledSize;
+  const sign = order.side === 'buy' ? 1 : -1;
+  return {
+    side: order.side,
+    filledSize,
+    filledNotional,
+    avgPrice,
+    bestPrice,
+    worstPrice: book.prices[levels - 1],
+    mid,
+    slippageBps: ((avgPrice - mid) / mid) * 10_000 * sign,
+    touchSlippageBps: ((avgPrice - bestPrice) / bestPrice) * 10_000 * sign,
+    levels,
+    // Float sums can land a hair under the requested amount
+    complete: target >= order.amount * (1 - 1e-9),
+  };
+}
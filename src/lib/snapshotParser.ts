@@ -0,0 +1,340 @@
+import type { WireOrder } from './l4BookEngine';
+
+/// Incremental parser for l4Book snapshot files.
+/// Scans raw bytes chunk by chunk, tracking just enough JSON structure to find
+/// `data.Snapshot.levels[side][i]` (or `levels` on a bare Snapshot object). Each
+/// order object is sliced out and parsed on its own, so memory stays proportional
+/// to one order rather than the whole file, and errors can name the byte offset
+/// where they happened. For NDJSON input only the first line is read.
+
+export type SnapshotHeader = {
+  coin: string;
+  time: number;
+  height: number;
+};
+
+export type SnapshotParser = {
+  /** Feed the next chunk of bytes. Throws on malformed input. */
+  write(chunk: Uint8Array): void;
+  /** Signal end of input and return the snapshot header fields. */
+  end(): SnapshotHeader;
+  readonly bytesRead: number;
+  readonly ordersParsed: number;
+  /** True once the first top-level value has been read; later input is ignored. */
+  readonly done: boolean;
+};
+
+// Containers on the path to the orders. Anything else is skipped wholesale.
+type Role = 'root' | 'data' | 'snapshot' | 'levels' | 'side';
+
+type Frame = {
+  role: Role;
+  isArray: boolean;
+  key: string;        // current key (objects)
+  index: number;      // current element index (arrays)
+};
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const LBRACE = 0x7b;
+const RBRACE = 0x7d;
+const LBRACKET = 0x5b;
+const RBRACKET = 0x5d;
+
+function isWhitespace(c: number): boolean {
+  return c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09;
+}
+
+function isScalarStart(c: number): boolean {
+  // digits, minus sign, and the first letters of true/false/null
+  return (c >= 0x30 && c <= 0x39) || c === 0x2d || c === 0x74 || c === 0x66 || c === 0x6e;
+}
+
+function describe(c: number): string {
+  return JSON.stringify(String.fromCharCode(c));
+}
+
+export function createSnapshotParser(onOrder: (raw: WireOrder) => void): SnapshotParser {
+  const decoder = new TextDecoder();
+  const stack: Frame[] = [];
+  const header: SnapshotHeader = { coin: '', time: 0, height: 0 };
+
+  let offset = 0;               // absolute byte offset of the current chunk
+  let ordersParsed = 0;
+  let sawSnapshot = false;
+  let rootDone = false;
+  let sawNewline = false;       // newline after the root value = NDJSON
+  let done = false;
+
+  // Structural lexer state
+  let expect: 'value' | 'key' | 'colon' | 'next' = 'value';
+  let inString = false;
+  let escaped = false;
+  let readingKey = false;
+  let tokenBytes: number[] | null = null;   // key / header value being accumulated
+  let inScalar = false;
+
+  // Nested containers that are either skipped or captured as a whole order
+  let nest = 0;
+  let capturing = false;
+  let captureStart = 0;         // index into the current chunk
+  let captureOffset = 0;        // absolute offset of the order's opening brace
+  let captureParts: Uint8Array[] = [];
+
+  function fail(message: string, at: number): never {
+    throw new Error(`${message} at byte ${at}`);
+  }
+
+  function top(): Frame | undefined {
+    return stack[stack.length - 1];
+  }
+
+  // A root object holding `levels` is a bare Snapshot without the data wrapper
+  function isSnapshotFrame(frame: Frame | undefined): boolean {
+    return frame?.role === 'snapshot' || frame?.role === 'root';
+  }
+
+  function isHeaderField(frame: Frame | undefined): boolean {
+    return isSnapshotFrame(frame)
+      && (frame!.key === 'coin' || frame!.key === 'time' || frame!.key === 'height');
+  }
+
+  function afterValue() {
+    expect = 'next';
+    if (stack.length === 0) rootDone = true;
+  }
+
+  function finishScalar() {
+    inScalar = false;
+    const frame = top();
+    if (tokenBytes && frame) {
+      const text = String.fromCharCode(...tokenBytes);
+      if (frame.key === 'time') header.time = Number(text);
+      else if (frame.key === 'height') header.height = Number(text);
+    }
+    tokenBytes = null;
+    afterValue();
+  }
+
+  function finishString() {
+    const frame = top()!;
+    const text = tokenBytes ? decoder.decode(Uint8Array.from(tokenBytes)) : '';
+    tokenBytes = null;
+    if (readingKey) {
+      readingKey = false;
+      frame.key = text;
+      expect = 'colon';
+      return;
+    }
+    if (isHeaderField(frame) && frame.key === 'coin') header.coin = text;
+    afterValue();
+  }
+
+  function finishCapture(chunk: Uint8Array, end: number) {
+    let bytes: Uint8Array;
+    if (captureParts.length === 0) {
+      bytes = chunk.subarray(captureStart, end);
+    } else {
+      captureParts.push(chunk.subarray(captureStart, end));
+      let len = 0;
+      for (const p of captureParts) len += p.length;
+      bytes = new Uint8Array(len);
+      let pos = 0;
+      for (const p of captureParts) {
+        bytes.set(p, pos);
+        pos += p.length;
+      }
+      captureParts = [];
+    }
+    let raw: any;
+    try {
+      raw = JSON.parse(decoder.decode(bytes));
+    } catch {
+      fail('Malformed order', captureOffset);
+    }
+    ordersParsed++;
+    onOrder(raw);
+  }
+
+  function openContainer(c: number, i: number) {
+    const isArray = c === LBRACKET;
+    const parent = top();
+    let role: Role | null = null;
+    if (!parent) {
+      if (isArray) fail('Expected a JSON object', offset + i);
+      role = 'root';
+    } else if (parent.role === 'root' && parent.key === 'data' && !isArray) {
+      role = 'data';
+    } else if (parent.role === 'data' && parent.key === 'Snapshot' && !isArray) {
+      role = 'snapshot';
+      sawSnapshot = true;
+    } else if (isSnapshotFrame(parent) && parent.key === 'levels' && isArray) {
+      role = 'levels';
+      sawSnapshot = true;
+    } else if (parent.role === 'levels' && isArray) {
+      role = 'side';
+    } else if (parent.role === 'side' && !isArray) {
+      capturing = true;
+      captureStart = i;
+      captureOffset = offset + i;
+      nest = 1;
+      return;
+    }
+
+    if (role === null) {
+      capturing = false;
+      nest = 1;
+      return;
+    }
+    stack.push({ role, isArray, key: '', index: 0 });
+    expect = isArray ? 'value' : 'key';
+  }
+
+  function closeContainer(c: number, i: number) {
+    const frame = top();
+    if (!frame || frame.isArray !== (c === RBRACKET)) fail(`Unexpected ${describe(c)}`, offset + i);
+    stack.pop();
+    afterValue();
+  }
+
+  function write(chunk: Uint8Array) {
+    if (done) return;
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+
+      // --- Inside a skipped or captured container: only track nesting ---
+      if (nest > 0) {
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (c === BACKSLASH) escaped = true;
+          else if (c === QUOTE) inString = false;
+          continue;
+        }
+        if (c === QUOTE) {
+          inString = true;
+        } else if (c === LBRACE || c === LBRACKET) {
+          nest++;
+        } else if (c === RBRACE || c === RBRACKET) {
+          if (--nest === 0) {
+            if (capturing) finishCapture(chunk, i + 1);
+            capturing = false;
+            afterValue();
+          }
+        }
+        continue;
+      }
+
+      // --- Structural tokens on the path to the orders ---
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (c === BACKSLASH) {
+          escaped = true;
+        } else if (c === QUOTE) {
+          inString = false;
+          finishString();
+          continue;
+        }
+        tokenBytes?.push(c);
+        continue;
+      }
+
+      if (inScalar) {
+        if (!isWhitespace(c) && c !== COMMA && c !== RBRACE && c !== RBRACKET) {
+          tokenBytes?.push(c);
+          continue;
+        }
+        finishScalar();
+      }
+
+      if (isWhitespace(c)) {
+        if (rootDone && c === 0x0a) sawNewline = true;
+        continue;
+      }
+
+      if (rootDone) {
+        if (!sawNewline) fail('Unexpected data after end of JSON', offset + i);
+        // NDJSON: the snapshot is the first line; the rest is not ours to read
+        done = true;
+        offset += i;
+        return;
+      }
+
+      const frame = top();
+      switch (expect) {
+        case 'key':
+          if (c === QUOTE) {
+            inString = true;
+            readingKey = true;
+            tokenBytes = [];
+          } else if (c === RBRACE && frame && frame.key === '') {
+            closeContainer(c, i);   // empty object
+          } else {
+            fail(`Expected a key, found ${describe(c)}`, offset + i);
+          }
+          break;
+        case 'colon':
+          if (c !== COLON) fail(`Expected ':', found ${describe(c)}`, offset + i);
+          expect = 'value';
+          break;
+        case 'value':
+          if (c === LBRACE || c === LBRACKET) {
+            openContainer(c, i);
+          } else if (c === QUOTE) {
+            inString = true;
+            tokenBytes = isHeaderField(frame) ? [] : null;
+          } else if (isScalarStart(c)) {
+            inScalar = true;
+            tokenBytes = isHeaderField(frame) ? [c] : null;
+          } else if (c === RBRACKET && frame?.isArray && frame.index === 0) {
+            closeContainer(c, i);   // empty array
+          } else {
+            fail(`Unexpected ${describe(c)}`, offset + i);
+          }
+          break;
+        case 'next':
+          if (c === COMMA && frame) {
+            if (frame.isArray) {
+              frame.index++;
+              expect = 'value';
+            } else {
+              expect = 'key';
+            }
+          } else if (c === RBRACE || c === RBRACKET) {
+            closeContainer(c, i);
+          } else {
+            fail(`Expected ',' or a closing bracket, found ${describe(c)}`, offset + i);
+          }
+          break;
+      }
+    }
+
+    // Carry a partially captured order over to the next chunk
+    if (nest > 0 && capturing) {
+      captureParts.push(chunk.slice(captureStart));
+      captureStart = 0;
+    }
+    offset += chunk.length;
+  }
+
+  function end(): SnapshotHeader {
+    if (inScalar) finishScalar();
+    if (!rootDone) {
+      if (offset === 0) throw new Error('File is empty');
+      fail(capturing ? 'Unterminated order' : 'Unexpected end of file',
+        capturing ? captureOffset : offset);
+    }
+    if (!sawSnapshot) throw new Error('No Snapshot found (expected data.Snapshot or a bare Snapshot object)');
+    return header;
+  }
+
+  return {
+    write,
+    end,
+    get bytesRead() { return offset; },
+    get ordersParsed() { return ordersParsed; },
+    get done() { return done; },
+  };
+}
@@ -0,0 +1,166 @@
+import type { SpoofCandidate } from './types';
+import type { EngineOrderEvent } from './l4BookEngine';
+import { median } from './stats';
+
+/// Spoofing / flicker-liquidity heuristics. The worker watches orders that
+/// were large for their level when placed and reports those canceled soon
+/// after without any fill as candidates, with the measurements taken at
+/// placement. Thresholds are applied on the main thread, so changing them
+/// re-scores everything already seen instead of only what comes next.
+///
+/// Candidate bounds below are the loosest thresholds the panel offers.
+
+export const CANDIDATE_MIN_SHARE = 0.2;          // order size / level size at placement
+export const CANDIDATE_MAX_LIFETIME_MS = 30_000;
+const MAX_WATCHED = 50_000;
+const MAX_PENDING = 1_000;
+
+export type SpoofThresholds = {
+  minLevelShare: number;     // 0–1
+  minDistanceBps: number;    // from the touch, at placement
+  maxLifetimeMs: number;
+};
+
+export const DEFAULT_SPOOF_THRESHOLDS: SpoofThresholds = {
+  minLevelShare: 0.5,
+  minDistanceBps: 5,
+  maxLifetimeMs: 2_000,
+};
+
+export type SpoofScore = {
+  user: string;
+  flagged: number;
+  notional: number;          // canceled notional across flagged orders
+  score: number;             // sum of level shares: one order that was the whole level counts 1
+  medianLifetimeMs: number;
+  lastTime: number;
+};
+
+type Watched = {
+  levelShare: number;
+  distanceBps: number;
+  placedAt: number;
+};
+
+/**
+ * Detector state at a point in time. Watched entries and candidates are never
+ * mutated, so references suffice. `pending` is whatever hasn't been taken —
+ * every recent candidate when nothing takes between checkpoints.
+ */
+export type SpoofCheckpoint = {
+  watched: [number, Watched][];
+  pending: SpoofCandidate[];
+};
+
+export function createSpoofDetector() {
+  const watched = new Map<number, Watched>();   // insertion order = placement order
+  let pending: SpoofCandidate[] = [];
+
+  function expire(now: number) {
+    for (const [oid, w] of watched) {
+      if (now - w.placedAt <= CANDIDATE_MAX_LIFETIME_MS) break;
+      watched.delete(oid);
+    }
+  }
+
+  return {
+    /**
+     * Record one engine event. `touch` is the book before the event's frame
+     * (NaN for an empty side); `levelSize` reads the live book, so it already
+     * includes a just-placed order.
+     */
+    record(
+      ev: EngineOrderEvent,
+      touch: { bestBid: number; bestAsk: number },
+      levelSize: (side: number, price: number) => number,
+    ) {
+      const o = ev.order;
+      if (ev.kind === 'placed') {
+        expire(ev.time);
+        const level = levelSize(o.side, o.price);
+        const mid = (touch.bestBid + touch.bestAsk) / 2;
+        if (!(level > 0) || !(mid > 0)) return;
+        const levelShare = o.size / level;
+        if (levelShare < CANDIDATE_MIN_SHARE) return;
+        // Orders improving the touch count as at the touch
+        const away = o.side === 0 ? touch.bestBid - o.price : o.price - touch.bestAsk;
+        watched.set(o.oid, { levelShare, distanceBps: Math.max(0, (away / mid) * 10_000), placedAt: ev.time });
+        if (watched.size > MAX_WATCHED) watched.delete(watched.keys().next().value!);
+        return;
+      }
+
+      const w = watched.get(o.oid);
+      if (!w) return;
+      watched.delete(o.oid);
+      // Only a user cancel of an untouched, unmodified order is a candidate
+      if (ev.kind !== 'canceled' || ev.status !== 'canceled') return;
+      const lifetimeMs = ev.time - w.placedAt;
+      if (lifetimeMs > CANDIDATE_MAX_LIFETIME_MS) return;
+      pending.push({
+        oid: o.oid,
+        user: o.user,
+        side: o.side,
+        price: o.price,
+        size: o.size,
+        levelShare: w.levelShare,
+        distanceBps: w.distanceBps,
+        lifetimeMs,
+        time: ev.time,
+      });
+      if (pending.length > MAX_PENDING) pending.splice(0, pending.length - MAX_PENDING);
+    },
+
+    /** Candidates since the last take, oldest first. */
+    take(): SpoofCandidate[] {
+      const out = pending;
+      pending = [];
+      return out;
+    },
+
+    get hasPending() {
+      return pending.length > 0;
+    },
+
+    checkpoint(): SpoofCheckpoint {
+      return { watched: Array.from(watched), pending: pending.slice() };
+    },
+
+    restore(cp: SpoofCheckpoint) {
+      watched.clear();
+      for (const [oid, w] of cp.watched) watched.set(oid, w);
+      pending = cp.pending.slice();
+    },
+
+    reset() {
+      watched.clear();
+      pending = [];
+    },
+  };
+}
+
+export function isSpoofLike(c: SpoofCandidate, t: SpoofThresholds): boolean {
+  return c.levelShare >= t.minLevelShare && c.distanceBps >= t.minDistanceBps && c.lifetimeMs <= t.maxLifetimeMs;
+}
+
+/** Per-address scores over the flagged candidates, highest score first. */
+export function scoreAddresses(flagged: SpoofCandidate[]): SpoofScore[] {
+  const byUser = new Map<string, { score: SpoofScore; lifetimes: number[] }>();
+  for (const c of flagged) {
+    const key = c.user.toLowerCase();
+    let entry = byUser.get(key);
+    if (!entry) {
+      entry = {
+        score: { user: c.user, flagged: 0, notional: 0, score: 0, medianLifetimeMs: 0, lastTime: 0 },
+        lifetimes: [],
+      };
+      byUser.set(key, entry);
+    }
+    entry.score.flagged++;
+    entry.score.notional += c.size * c.price;
+    entry.score.score += c.levelShare;
+    entry.score.lastTime = Math.max(entry.score.lastTime, c.time);
+    entry.lifetimes.push(c.lifetimeMs);
+  }
+  const scores = Array.from(byUser.values(), ({ score, lifetimes }) => ({ ...score, medianLifetimeMs: median(lifetimes) ?? 0 }));
+  return scores.sort((a, b) => b.score - a.score);
+}
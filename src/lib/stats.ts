@@ -0,0 +1,7 @@
+/** Median of a sample, or null for an empty one. Doesn't reorder `values`. */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const m = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[m] : (sorted[m - 1] + sorted[m]) / 2;
+}
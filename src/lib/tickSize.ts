@@ -0,0 +1,85 @@
+import type { SnapshotView } from './types';
+
+/// Tick-size helpers shared by the single-book view and workspace panels.
+/// szDecimals come from the Hyperliquid meta API and are cached per coin for
+/// the lifetime of the page.
+
+const INFO_URL = 'https://api.hyperliquid.xyz/info';
+
+// Keys use "dex:coin" for HIP-3, plain "coin" for native
+const szDecimalsCache: Map<string, number> = new Map();
+
+export function cacheKey(coin: string, dex: string): string {
+  return dex ? `${dex}:${coin}` : coin;
+}
+
+/** Split a wire coin ("dex:SYMBOL" for HIP-3) into its DEX and bare symbol. */
+export function splitCoin(wireCoin: string): { dex: string; coin: string } {
+  const colonIdx = wireCoin.indexOf(':');
+  if (colonIdx === -1) return { dex: '', coin: wireCoin };
+  return { dex: wireCoin.slice(0, colonIdx), coin: wireCoin.slice(colonIdx + 1) };
+}
+
+export function cachedSzDecimals(coin: string, dex: string = ''): number | undefined {
+  return szDecimalsCache.get(cacheKey(coin, dex));
+}
+
+export async function fetchSzDecimals(coin: string, dex: string = ''): Promise<number | null> {
+  const key = cacheKey(coin, dex);
+  if (szDecimalsCache.has(key)) return szDecimalsCache.get(key)!;
+  try {
+    const body: Record<string, string> = { type: 'meta' };
+    if (dex) body.dex = dex;
+    const res = await fetch(INFO_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    const universe: { name: string; szDecimals: number }[] = data.universe ?? [];
+    const prefix = dex ? `${dex}:` : '';
+    for (const asset of universe) {
+      // HIP-3 names come back as "dex:SYMBOL" — strip prefix for cache key
+      const bare = prefix && asset.name.startsWith(prefix)
+        ? asset.name.slice(prefix.length)
+        : asset.name;
+      szDecimalsCache.set(cacheKey(bare, dex), asset.szDecimals);
+    }
+    return szDecimalsCache.get(key) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tick size from szDecimals and current price.
+ * Rules: up to 5 significant figures, up to (6 - szDecimals) decimal places,
+ * integers always valid. Tick = max of both constraints.
+ */
+export function computeTickSize(szDecimals: number, price: number): number {
+  const maxDecimals = 6 - szDecimals;
+  const decimalTick = Math.pow(10, -maxDecimals);
+  if (price <= 0) return decimalTick;
+  // 5th significant figure position
+  let sigFigTick = Math.pow(10, Math.floor(Math.log10(price)) - 4);
+  // Integers are always valid, so sig-fig tick can't exceed 1
+  if (sigFigTick > 1) sigFigTick = 1;
+  return Math.max(sigFigTick, decimalTick);
+}
+
+/** Snap a user-entered tick size to a multiple of the base tick; null if invalid. */
+export function snapTickSize(value: number, baseTickSize: number): number | null {
+  if (isNaN(value) || value < baseTickSize) return null;
+  const snapped = Math.round(value / baseTickSize) * baseTickSize;
+  const rounded = Math.round(snapped * 1e8) / 1e8;
+  return Math.max(rounded, baseTickSize);
+}
+
+export function snapshotMidPrice(snap: SnapshotView): number {
+  const bids = snap.bids.prices;
+  const asks = snap.asks.prices;
+  const bestBid = bids.length > 0 ? bids[0] : 0;
+  const bestAsk = asks.length > 0 ? asks[0] : 0;
+  if (bestBid && bestAsk) return (bestBid + bestAsk) / 2;
+  return bestBid || bestAsk || 0;
+}
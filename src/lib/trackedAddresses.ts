@@ -0,0 +1,16 @@
+import type { TrackedAddress } from './types';
+
+const TRACK_PALETTE = [
+  '#be95ff', '#78a9ff', '#ee5396', '#33b1ff',
+  '#3ddbd9', '#ff7eb6', '#42be65', '#82cfff',
+];
+
+/** Colour for the next tracked address, cycling through the palette. */
+export function nextTrackColor(tracked: TrackedAddress[]): string {
+  return TRACK_PALETTE[tracked.length % TRACK_PALETTE.length];
+}
+
+export function isTracked(tracked: TrackedAddress[], address: string): boolean {
+  const lower = address.toLowerCase();
+  return tracked.some((t) => t.address.toLowerCase() === lower);
+}
@@ -5,6 +5,12 @@ export type TrackedAddress = {
   positionSize?: number;
 };
 
+// One book in the multi-symbol workspace
+export type WorkspaceBook = {
+  coin: string;               // bare symbol
+  dex: string;                // '' for native Hyperliquid
+};
+
 export type SnapshotMeta = {
   coin: string;
   time: number;
@@ -24,6 +30,7 @@ export type HeatmapData = {
   sides: Float32Array;        // 0=bid, 1=ask
   brightness: Float32Array;   // normalized [0,1] — rank-based order age (0=oldest, 1=newest)
   timestamps: Float64Array;   // actual timestamp in ms per order (for overlay display)
+  oids: Float64Array;         // order id per order (NaN when unknown, e.g. .l4bin v1 files)
   users: string[];            // user address per order (same stacking order as typed arrays)
   maxCumSize: number;         // tallest stacked column across all price levels
   count: number;
@@ -34,6 +41,18 @@ export type HeatmapData = {
   dataPriceMax: number;       // highest price in the dataset
 };
 
+// Untriggered stop / take-profit orders, drawn as a separate layer at their trigger price
+export type TriggerLayer = {
+  triggerPrices: Float64Array;
+  limitPrices: Float64Array;
+  sizes: Float64Array;
+  sides: Float32Array;        // 0=bid, 1=ask
+  oids: Float64Array;
+  users: string[];
+  conditions: string[];       // raw triggerCondition, e.g. "Price above 3000"
+  count: number;
+};
+
 export type ViewRange = {
   priceMin: number;
   priceMax: number;
@@ -46,9 +65,11 @@ export type SnapshotView = {
   bids: SideData;
   asks: SideData;
   heatmap: HeatmapData;
+  triggers?: TriggerLayer;    // absent for .l4bin v1/v2 files
 };
 
 export type ParseMetrics = {
+  format: string;             // e.g. 'json', 'ndjson.gz', 'l4bin'
   fileSizeMB: number;
   parseTimeMs: number;
   transformTimeMs: number;
@@ -57,6 +78,12 @@ export type ParseMetrics = {
   orderCount: number;
 };
 
+export type FileParseProgress = {
+  bytesRead: number;
+  totalBytes: number;
+  ordersParsed: number;
+};
+
 export type StreamMetrics = {
   orderCount: number;
   bidLevelCount: number;
@@ -65,11 +92,190 @@ export type StreamMetrics = {
   diffsApplied: number;
   messagesReceived: number;
   rebuildIntervalMs: number;
+  heightGaps: number;         // Updates frames that skipped one or more block heights
+  missedHeights: number;      // total block heights skipped across all gaps
+  outOfOrderFrames: number;   // Updates at or below the last applied height (dropped)
+  resyncs: number;            // fresh Snapshots requested after a gap
+  resyncing: boolean;         // a gap was seen and no fresh Snapshot has arrived yet
+};
+
+export type RecordingSession = {
+  id: number;
+  coin: string;
+  url: string;
+  startedAt: number;          // ms
+  endedAt: number | null;     // ms, null while still recording
+  messageCount: number;
+  byteCount: number;
+};
+
+// 'waiting' = recording requested, holding off until a fresh Snapshot arrives
+export type RecordingState = 'idle' | 'waiting' | 'recording';
+
+export type RecordingProgress = {
+  state: RecordingState;
+  sessionId: number | null;
+  messageCount: number;
+  byteCount: number;
+  startedAt: number | null;
+  error?: string;
+};
+
+export type ReplayState = {
+  frameCount: number;
+  index: number;              // last applied frame (0 = the opening Snapshot)
+  playing: boolean;
+  speed: number;              // playback multiplier, 0.25x–50x
+  height: number;             // meta.height after the current frame
+  time: number;               // ms — receive time (or block time) of the current frame
+  heightMin: number;
+  heightMax: number;
+  timeMin: number;
+  timeMax: number;
+};
+
+export type Trade = {
+  time: number;               // ms — block time of the fill
+  height: number;
+  price: number;              // the resting (maker) order's limit price
+  size: number;
+  side: number;               // aggressor: 0=buy (lifted an ask), 1=sell (hit a bid)
+  maker: string;              // resting order's user address
+  oid: number;                // resting order id
+};
+
+// Book-pressure signals sampled on each rebuild (see bookFlow.ts)
+export type FlowSample = {
+  time: number;               // ms — block time of the book
+  mid: number;
+  microprice: number;         // touch prices weighted by the opposite side's top size
+  imbalance: number[];        // (bid − ask) / (bid + ask) depth per IMBALANCE_BANDS_BPS band, −1..1
+  netAddedBid: number;        // size placed minus canceled since the previous sample
+  netAddedAsk: number;
+};
+
+export type OrderEventKind = 'placed' | 'modified' | 'sizeReduced' | 'filled' | 'canceled';
+
+export type OrderEvent = {
+  kind: OrderEventKind;
+  time: number;               // ms — order timestamp for 'placed', block time otherwise
+  height: number;             // 0 when placed before observation began
+  price: number;
+  size: number;               // resting size after the event ('filled'/'canceled': size removed)
+  reducedBy?: number;         // 'sizeReduced': size taken off — possibly a fill, unconfirmed
+  status?: string;            // raw status string for removals (e.g. 'marginCanceled')
+};
+
+export type OrderHistory = {
+  oid: number;
+  user: string;
+  side: number;               // 0=bid, 1=ask
+  events: OrderEvent[];       // oldest first, bounded
+  truncated: boolean;         // early events were dropped to stay within the bound
+  midDistanceBps: number | null;   // distance from mid when first observed
+  resting: boolean;           // still on the book
+};
+
+export type LifetimeBucket = {
+  minBps: number;
+  maxBps: number;             // Infinity for the last bucket
+  count: number;
+  medianMs: number | null;
+};
+
+export type LifecycleStats = {
+  completed: number;          // orders whose end (cancel or full fill) was observed
+  cancels: number;
+  fills: number;
+  cancelToFill: number | null;
+  medianLifetimeMs: number | null;
+  byDistance: LifetimeBucket[];
+};
+
+// A run of refills: the same address re-placing at one price right after being filled
+export type RefillSeries = {
+  user: string;
+  side: number;               // 0=bid, 1=ask
+  price: number;
+  refills: number;
+  refilledSize: number;       // size re-placed across all refills
+  filledSize: number;         // size filled just before each refill
+  avgDelayMs: number;         // fill → re-place, block time
+  firstTime: number;          // ms — block time of the first fill in the series
+  lastTime: number;           // ms — block time of the latest refill
+  oid: number;                // latest refill's order (may no longer rest)
+};
+
+export type RefillReport = {
+  series: RefillSeries[];     // largest refilled notional first, bounded
+  total: number;              // detected series, including ones cut from the list
+};
+
+// An order that was large for its level, placed away from the touch and
+// canceled unfilled soon after — measured when placed, thresholded in the UI
+export type SpoofCandidate = {
+  oid: number;
+  user: string;
+  side: number;               // 0=bid, 1=ask
+  price: number;
+  size: number;
+  levelShare: number;         // order size / level size right after placement, 0–1
+  distanceBps: number;        // behind the touch at placement, 0 if at or inside it
+  lifetimeMs: number;         // placed → canceled, block time
+  time: number;               // ms — block time of the cancel
+};
+
+export type IntegrityIssueKind =
+  | 'crossedBook'       // best bid >= best ask
+  | 'invalidOrder'      // NaN / non-positive size or non-finite price
+  | 'unknownRemove'     // cancel for an oid that isn't on the book
+  | 'duplicateOpen'     // `open` repeating an order already on the book (same side, price and size)
+  | 'unknownStatus'     // status string the book doesn't know how to apply
+  | 'missingHeight';    // Snapshot without a height; continuity starts at the next Updates frame
+
+export type IntegrityIssue = {
+  kind: IntegrityIssueKind;
+  height: number;             // book height when the issue was seen
+  time: number;               // ms — wall clock when recorded
+  oid?: number;
+  detail: string;
+};
+
+export type DiagnosticsReport = {
+  counts: Record<IntegrityIssueKind, number>;
+  recent: IntegrityIssue[];   // newest first
+  crossed: boolean;           // the book is crossed right now
+};
+
+export type FeedMismatch = {
+  oid: number;
+  primarySize: number;
+  secondarySize: number;
+};
+
+export type FeedDiff = {
+  height: number;             // block height both books were compared at
+  matched: number;            // oids present in both with the same size
+  onlyPrimary: number;
+  onlySecondary: number;
+  sizeMismatches: number;
+  samples: FeedMismatch[];    // first few size mismatches
+};
+
+export type ComparisonSummary = {
+  primaryHeight: number;
+  secondaryHeight: number;
+  heightLag: number;          // primary minus secondary, in blocks (positive = secondary behind)
+  timeLagMs: number | null;   // median delay before the secondary reached a height the primary had
+  comparisons: number;        // equal-height diffs run so far
+  divergent: number;          // diffs that found at least one difference
+  lastDiff: FeedDiff | null;
 };
 
 export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'subscribed' | 'disconnected' | 'error';
 
 export type WorkerMessage =
+  | { type: 'progress'; progress: FileParseProgress }
   | { type: 'success'; data: SnapshotView; metrics: ParseMetrics }
   | { type: 'error'; error: string };
 
@@ -77,13 +283,46 @@ export type WorkerMessage =
 export type BookWorkerOutMessage =
   | { type: 'status'; status: ConnectionStatus; message?: string }
   | { type: 'snapshot'; data: SnapshotView; metrics: StreamMetrics }
-  | { type: 'update'; data: SnapshotView; metrics: StreamMetrics }
+  | { type: 'update'; data: SnapshotView; metrics: StreamMetrics; trades: Trade[]; flow: FlowSample | null }
   | { type: 'fileResult'; data: SnapshotView; metrics: ParseMetrics }
-  | { type: 'fileError'; error: string };
+  | { type: 'fileProgress'; progress: FileParseProgress }
+  | { type: 'fileError'; error: string }
+  | { type: 'recording'; progress: RecordingProgress }
+  | { type: 'recordingSessions'; sessions: RecordingSession[] }
+  | { type: 'recordingExport'; session: RecordingSession; blob: Blob }
+  | { type: 'replayState'; state: ReplayState }
+  | { type: 'snapshotExport'; meta: SnapshotMeta; blob: Blob }
+  | { type: 'diagnostics'; report: DiagnosticsReport }
+  | { type: 'orderHistory'; oid: number; history: OrderHistory | null }
+  | { type: 'lifecycleStats'; stats: LifecycleStats }
+  | { type: 'refills'; report: RefillReport }
+  | { type: 'spoofCandidates'; events: SpoofCandidate[]; reset: boolean };   // reset: replaces all earlier events
 
 // Book worker messages (main → worker)
 export type BookWorkerInMessage =
   | { type: 'connect'; url: string; coin: string }
   | { type: 'disconnect' }
   | { type: 'setRebuildInterval'; intervalMs: number }
-  | { type: 'parseFile'; buffer: ArrayBuffer; fileSize: number };
+  | { type: 'parseFile'; file: Blob; fileSize: number }
+  | { type: 'setRecording'; enabled: boolean }
+  | { type: 'listRecordings' }
+  | { type: 'exportRecording'; sessionId: number }
+  | { type: 'deleteRecording'; sessionId: number }
+  | { type: 'exportSnapshot' }
+  | { type: 'loadReplay'; buffer: ArrayBuffer; fileSize: number }
+  | { type: 'replayPlay' }
+  | { type: 'replayPause' }
+  | { type: 'replayStep' }
+  | { type: 'replaySeek'; height: number }
+  | { type: 'replaySetSpeed'; speed: number }
+  | { type: 'watchOrder'; oid: number | null };
+
+// Export worker messages (main → worker)
+export type ExportWorkerInMessage =
+  | { type: 'orders'; heatmap: HeatmapData; priceMin: number; priceMax: number }
+  | { type: 'levels'; bids: SideData; asks: SideData; tickSize: number; priceMin: number; priceMax: number };
+
+// Export worker messages (worker → main)
+export type ExportWorkerOutMessage =
+  | { type: 'success'; blob: Blob; rows: number }
+  | { type: 'error'; error: string };
@@ -1,8 +1,9 @@
-import type { SnapshotView, ParseMetrics, WorkerMessage } from './types';
+import type { SnapshotView, ParseMetrics, WorkerMessage, FileParseProgress } from './types';
 
 export type WorkerCallbacks = {
   onSuccess: (data: SnapshotView, metrics: ParseMetrics) => void;
   onError: (error: string) => void;
+  onProgress?: (progress: FileParseProgress) => void;
 };
 
 export function createWorkerClient() {
@@ -15,6 +16,10 @@ export function createWorkerClient() {
 
   worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
     if (!pending) return;
+    if (e.data.type === 'progress') {
+      pending.onProgress?.(e.data.progress);
+      return;
+    }
     const cb = pending;
     pending = null;
 
@@ -33,10 +38,10 @@ export function createWorkerClient() {
   };
 
   return {
-    /** Post an ArrayBuffer to the worker for parsing. Buffer is transferred (zero-copy). */
-    parse(buffer: ArrayBuffer, fileSize: number, callbacks: WorkerCallbacks) {
+    /** Post a File/Blob to the worker, which streams and parses it incrementally. */
+    parse(file: Blob, fileSize: number, callbacks: WorkerCallbacks) {
       pending = callbacks;
-      worker.postMessage({ buffer, fileSize }, [buffer]);
+      worker.postMessage({ file, fileSize });
     },
 
     destroy() {
@@ -1,20 +1,57 @@
 /// Web Worker: handles WebSocket streaming with incremental diffs AND file-based parsing.
-/// Maintains an orders Map for O(1) diff application and batched typed-array rebuilds.
-
-import type { BookWorkerInMessage } from '../lib/types';
-
-interface Order {
-  oid: number;
-  side: number;    // 0=bid, 1=ask
-  price: number;
-  size: number;
-  timestamp: number;
-  user: string;
-}
+/// Book state lives in an L4BookEngine; this worker owns the transport (socket,
+/// replay clock, files), batches rebuilds, and posts the resulting views.
+
+import type { BookWorkerInMessage, RecordingSession, RecordingState, SnapshotView, Trade } from '../lib/types';
+import {
+  createSession, appendChunk, finishSession, listSessions, readSessionBlob, deleteSession,
+} from '../lib/sessionStore';
+import { createSnapshotParser, type SnapshotHeader } from '../lib/snapshotParser';
+import { openSnapshotStream } from '../lib/fileLoader';
+import { decodeL4Bin, hasL4BinMagic } from '../lib/l4bin';
+import {
+  createL4BookEngine, type BookOrder, type EngineCheckpoint, type SnapshotPayload, type UpdatesPayload,
+} from '../lib/l4BookEngine';
+import { createBookDiagnostics } from '../lib/bookDiagnostics';
+import { createOrderLifecycle, type LifecycleCheckpoint } from '../lib/orderLifecycle';
+import { createRefillDetector, type RefillCheckpoint } from '../lib/refillDetector';
+import { createSpoofDetector, type SpoofCheckpoint } from '../lib/spoofDetector';
+import { computeFlowSample, createFlowAccumulator } from '../lib/bookFlow';
 
 // --- Worker state ---
-const orders = new Map<number, Order>();
-let meta = { coin: '', time: 0, height: 0 };
+const diagnostics = createBookDiagnostics();
+let observeBook = true;        // diagnostics; off while replay re-applies frames it has already seen
+const MAX_PENDING_TRADES = 1000;
+let pendingTrades: Trade[] = [];   // prints since the last update post
+let collectTrades = true;          // trades and flow; off during the replay checkpoint pass
+const flow = createFlowAccumulator();   // net added/canceled size since the last update post
+const lifecycle = createOrderLifecycle();
+const LIFECYCLE_STATS_MS = 1000;
+let lastLifecycleStatsPost = 0;
+const refills = createRefillDetector();
+let lastRefillsPost = 0;
+const spoofs = createSpoofDetector();
+let frameMid = 0;                  // mid before the current Updates frame, for distance-from-mid
+let frameTouch = { bestBid: NaN, bestAsk: NaN };   // touch before the current Updates frame
+let watchedOid: number | null = null;
+let watchedChanged = false;
+const engine = createL4BookEngine({
+  onIssue: (issue) => {
+    if (observeBook) diagnostics.record(issue.kind, engine.meta.height, issue.detail, issue.oid);
+  },
+  onOrderEvent: (ev) => {
+    lifecycle.record(ev, engine.meta.height, frameMid);
+    refills.record(ev);
+    spoofs.record(ev, frameTouch, engine.levelSize);
+    if (collectTrades) flow.record(ev);
+    if (ev.order.oid === watchedOid) watchedChanged = true;
+  },
+  onTrade: (trade) => {
+    if (!collectTrades) return;
+    pendingTrades.push(trade);
+    if (pendingTrades.length > MAX_PENDING_TRADES) pendingTrades.splice(0, pendingTrades.length - MAX_PENDING_TRADES);
+  },
+});
 let dirty = false;
 let rebuildIntervalMs = 100;   // 10fps — standard for orderbook UIs
 let rebuildTimer: ReturnType<typeof setInterval> | null = null;
@@ -26,281 +63,229 @@ let diffsSinceLastRebuild = 0;
 let pendingCoin = '';
 let pendingUrl = '';
 
-// --- Persistent incremental state (maintained by add/remove helpers) ---
-const byPrice = new Map<number, Order[]>();
-const bidMap = new Map<number, number>();   // price → total size
-const askMap = new Map<number, number>();   // price → total size
-let cachedTickSize = 1;
-
-// --- Helpers ---
-
-function parseOrder(raw: any): Order | null {
-  if (raw.isTrigger && raw.triggerCondition !== 'Triggered') return null;
-  return {
-    oid: raw.oid,
-    side: raw.side === 'B' ? 0 : 1,
-    price: parseFloat(raw.limitPx),
-    size: parseFloat(raw.sz),
-    timestamp: raw.timestamp,
-    user: raw.user || '',
-  };
-}
-
-function addOrderToGroups(o: Order) {
-  let group = byPrice.get(o.price);
-  if (!group) {
-    group = [];
-    byPrice.set(o.price, group);
-  }
-  group.push(o);
-
-  const map = o.side === 0 ? bidMap : askMap;
-  map.set(o.price, (map.get(o.price) || 0) + o.size);
-}
+// --- Height continuity (live stream only) ---
+const RESYNC_TIMEOUT_MS = 5000;     // reconnect if a requested Snapshot doesn't arrive
+let haveSnapshot = false;               // diffs before the first Snapshot have nothing to apply to
+let lastHeight: number | null = null;   // height of the last applied frame; null until one is known
+let resyncing = false;
+let resyncTimer: ReturnType<typeof setTimeout> | null = null;
+let heightGaps = 0;
+let missedHeights = 0;
+let outOfOrderFrames = 0;
+let resyncs = 0;
+
+// --- Replay state ---
+const CHECKPOINT_INTERVAL = 250;    // frames between book checkpoints
+const MAX_REPLAY_GAP_MS = 2000;     // idle stretches longer than this are skipped during playback
+const REPLAY_STATE_THROTTLE_MS = 100;
+
+type ReplayFrame = {
+  data: { Snapshot?: SnapshotPayload; Updates?: UpdatesPayload };   // l4Book `data` payload
+  time: number;                     // ms — recvTime if recorded, else block time
+  height: number;
+};
 
-function removeOrderFromGroups(o: Order) {
-  const group = byPrice.get(o.price);
-  if (group) {
-    const idx = group.indexOf(o);
-    if (idx >= 0) group.splice(idx, 1);
-    if (group.length === 0) byPrice.delete(o.price);
-  }
+type ReplayCheckpoint = {
+  index: number;                    // state after applying frames[0..index]
+  book: EngineCheckpoint;
+  lifecycle: LifecycleCheckpoint;
+  refills: RefillCheckpoint;
+  spoofs: SpoofCheckpoint;          // candidates so far: the checkpoint pass never takes them
+};
 
-  const map = o.side === 0 ? bidMap : askMap;
-  const prev = map.get(o.price) || 0;
-  const next = prev - o.size;
-  if (next <= 1e-12) {
-    map.delete(o.price);
-  } else {
-    map.set(o.price, next);
-  }
-}
+let replayFrames: ReplayFrame[] | null = null;
+let replayCheckpoints: ReplayCheckpoint[] = [];
+let replayIndex = -1;
+let replayPlaying = false;
+let replaySpeed = 1;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+let replayClockWall = 0;            // performance.now() at the clock anchor
+let replayClockData = 0;            // frame time at the clock anchor
+let lastReplayStatePost = 0;
+
+// --- Recording state ---
+const RECORD_FLUSH_MS = 1000;
+let recordingState: RecordingState = 'idle';
+let recordingSession: RecordingSession | null = null;
+let recordingSessionPending: Promise<RecordingSession> | null = null;
+let recordBuffer: string[] = [];
+let recordBufferMessages = 0;
+let recordBufferBytes = 0;
+let recordSeq = 0;
+let recordedMessages = 0;
+let recordedBytes = 0;
+let recordFlushTimer: ReturnType<typeof setInterval> | null = null;
+let recordWrites: Promise<void> = Promise.resolve();   // serializes IndexedDB writes
+const recordEncoder = new TextEncoder();                 // byte counts are UTF-8, as exported
 
-function clearIncrementalState() {
-  byPrice.clear();
-  bidMap.clear();
-  askMap.clear();
-  cachedTickSize = 1;
-}
+// --- Helpers ---
 
 function getTransferList(result: any): ArrayBuffer[] {
   const transfers: ArrayBuffer[] = [];
-  const { bids, asks, heatmap } = result.data;
+  const { bids, asks, heatmap, triggers } = result.data;
   transfers.push(
     bids.prices.buffer, bids.sizes.buffer, bids.cumSizes.buffer,
     asks.prices.buffer, asks.sizes.buffer, asks.cumSizes.buffer,
     heatmap.prices.buffer, heatmap.yOffsets.buffer, heatmap.sizes.buffer,
     heatmap.sides.buffer, heatmap.brightness.buffer, heatmap.timestamps.buffer,
+    heatmap.oids.buffer,
   );
+  if (triggers) {
+    transfers.push(
+      triggers.triggerPrices.buffer, triggers.limitPrices.buffer, triggers.sizes.buffer,
+      triggers.sides.buffer, triggers.oids.buffer,
+    );
+  }
   return transfers;
 }
 
 function buildSnapshotView() {
   const t0 = performance.now();
 
-  const orderCount = orders.size;
+  const orderCount = engine.orderCount;
   if (orderCount === 0) return null;
 
-  // Build heatmap arrays — single pass over pre-grouped byPrice
-  const hmPrices = new Float32Array(orderCount);
-  const hmYOffsets = new Float32Array(orderCount);
-  const hmSizes = new Float32Array(orderCount);
-  const hmSides = new Float32Array(orderCount);
-  const hmBrightness = new Float32Array(orderCount);
-  const hmTimestamps = new Float64Array(orderCount);
-  const hmUsers: string[] = new Array(orderCount);
-
-  let minTs = Infinity;
-  let maxTs = -Infinity;
-
-  let idx = 0;
-  let maxCumSize = 0;
-
-  for (const [, group] of byPrice) {
-    group.sort((a, b) => a.timestamp - b.timestamp);
-    const groupMax = group.length - 1;
-    let cumOffset = 0;
-    for (let gi = 0; gi < group.length; gi++) {
-      const o = group[gi];
-      hmPrices[idx] = o.price;
-      hmYOffsets[idx] = cumOffset;
-      hmSizes[idx] = o.size;
-      hmSides[idx] = o.side;
-      // Per-group rank brightness: oldest=0 (dimmest), newest=1 (brightest)
-      hmBrightness[idx] = groupMax > 0 ? gi / groupMax : 0.5;
-      hmTimestamps[idx] = o.timestamp;
-      hmUsers[idx] = o.user;
-      if (o.timestamp < minTs) minTs = o.timestamp;
-      if (o.timestamp > maxTs) maxTs = o.timestamp;
-      cumOffset += o.size;
-      idx++;
-    }
-    if (cumOffset > maxCumSize) maxCumSize = cumOffset;
-  }
-
-  // Build depth arrays directly from cached bidMap/askMap
-  const bidEntries = Array.from(bidMap.entries()).sort((a, b) => b[0] - a[0]);
-  const askEntries = Array.from(askMap.entries()).sort((a, b) => a[0] - b[0]);
-
-  const bidPrices = new Float64Array(bidEntries.length);
-  const bidSizes = new Float64Array(bidEntries.length);
-  const bidCumSizes = new Float64Array(bidEntries.length);
-  let cum = 0;
-  for (let i = 0; i < bidEntries.length; i++) {
-    bidPrices[i] = bidEntries[i][0];
-    bidSizes[i] = bidEntries[i][1];
-    cum += bidEntries[i][1];
-    bidCumSizes[i] = cum;
-  }
-
-  const askPrices = new Float64Array(askEntries.length);
-  const askSizes = new Float64Array(askEntries.length);
-  const askCumSizes = new Float64Array(askEntries.length);
-  cum = 0;
-  for (let i = 0; i < askEntries.length; i++) {
-    askPrices[i] = askEntries[i][0];
-    askSizes[i] = askEntries[i][1];
-    cum += askEntries[i][1];
-    askCumSizes[i] = cum;
-  }
-
-  // Price bounds from byPrice keys (O(k) where k = unique prices)
-  let dataPriceMin = Infinity;
-  let dataPriceMax = -Infinity;
-  for (const p of byPrice.keys()) {
-    if (p < dataPriceMin) dataPriceMin = p;
-    if (p > dataPriceMax) dataPriceMax = p;
-  }
-  if (dataPriceMin === Infinity) dataPriceMin = 0;
-  if (dataPriceMax === -Infinity) dataPriceMax = 0;
-
+  const data = engine.buildView();
   const lastRebuildMs = Math.round((performance.now() - t0) * 100) / 100;
+  diagnostics.checkCrossed(data);
 
   return {
-    data: {
-      meta,
-      bids: { prices: bidPrices, sizes: bidSizes, cumSizes: bidCumSizes },
-      asks: { prices: askPrices, sizes: askSizes, cumSizes: askCumSizes },
-      heatmap: {
-        prices: hmPrices,
-        yOffsets: hmYOffsets,
-        sizes: hmSizes,
-        sides: hmSides,
-        brightness: hmBrightness,
-        timestamps: hmTimestamps,
-        users: hmUsers,
-        maxCumSize,
-        count: orderCount,
-        timestampMin: minTs,
-        timestampMax: maxTs,
-        tickSize: cachedTickSize,
-        dataPriceMin,
-        dataPriceMax,
-      },
-    },
+    data,
     metrics: {
       orderCount,
-      bidLevelCount: bidEntries.length,
-      askLevelCount: askEntries.length,
+      bidLevelCount: data.bids.prices.length,
+      askLevelCount: data.asks.prices.length,
       lastRebuildMs,
       diffsApplied: diffsSinceLastRebuild,
       messagesReceived,
       rebuildIntervalMs,
+      heightGaps,
+      missedHeights,
+      outOfOrderFrames,
+      resyncs,
+      resyncing,
     },
   };
 }
 
-// --- WebSocket handling ---
+function takeTrades(): Trade[] {
+  const trades = pendingTrades;
+  pendingTrades = [];
+  return trades;
+}
 
-function handleSnapshot(snapshot: any) {
-  orders.clear();
-  clearIncrementalState();
+function postOrderHistory() {
+  watchedChanged = false;
+  if (watchedOid === null) return;
+  const history = lifecycle.history(watchedOid, engine.getOrder(watchedOid), engine.midPrice());
+  self.postMessage({ type: 'orderHistory', oid: watchedOid, history });
+}
 
-  const { coin, time, height, levels } = snapshot;
-  meta = { coin, time, height };
+function postLifecycleStats() {
+  lastLifecycleStatsPost = performance.now();
+  self.postMessage({ type: 'lifecycleStats', stats: lifecycle.stats() });
+}
 
-  const rawOrders: any[] = (levels as any[][]).flat();
-  for (const raw of rawOrders) {
-    const o = parseOrder(raw);
-    if (o) {
-      orders.set(o.oid, o);
-      addOrderToGroups(o);
-    }
-  }
+function postRefills() {
+  lastRefillsPost = performance.now();
+  self.postMessage({ type: 'refills', report: refills.report() });
+}
 
-  // Compute and cache tick size (never changes during streaming)
-  const uniquePrices = Array.from(byPrice.keys()).sort((a, b) => a - b);
-  cachedTickSize = 1;
-  if (uniquePrices.length >= 2) {
-    let minDiff = Infinity;
-    for (let i = 1; i < uniquePrices.length; i++) {
-      const diff = uniquePrices[i] - uniquePrices[i - 1];
-      if (diff > 1e-9 && diff < minDiff) minDiff = diff;
-    }
-    if (minDiff < Infinity) {
-      cachedTickSize = Math.round(minDiff * 1e8) / 1e8;
-    }
-  }
+function postSpoofCandidates(reset = false) {
+  self.postMessage({ type: 'spoofCandidates', events: spoofs.take(), reset });
+}
 
+function postDiagnostics() {
+  self.postMessage({ type: 'diagnostics', report: diagnostics.report() });
+}
+
+// --- WebSocket handling ---
+
+function handleSnapshot(snapshot: SnapshotPayload) {
+  engine.applySnapshot(snapshot);
+  pendingTrades = [];
+  flow.reset();
   diffsSinceLastRebuild = 0;
   const result = buildSnapshotView();
   if (result) {
     const msg = { type: 'snapshot' as const, ...result };
     self.postMessage(msg, { transfer: getTransferList(msg) } as any);
   }
+  if (diagnostics.changed) postDiagnostics();
 }
 
-// Statuses that add an order to the book
-const ADD_STATUSES = new Set(['open']);
-// Statuses that remove an order from the book
-const REMOVE_STATUSES = new Set(['canceled', 'filled', 'marginCanceled', 'reduceOnlyCanceled']);
-
-function handleUpdates(updates: any) {
-  const orderStatuses = updates?.order_statuses;
-  if (!Array.isArray(orderStatuses)) return;
-
-  for (const entry of orderStatuses) {
-    const status: string = entry?.status;
-    const order = entry?.order;
-    if (!order) continue;
-
-    const oid = order.oid;
-    if (oid == null) continue;
-
-    if (ADD_STATUSES.has(status)) {
-      // Skip untriggered trigger orders
-      if (order.isTrigger && order.triggerCondition !== 'Triggered') continue;
-      // New order on the book — user is on the parent entry, not order.user
-      const o: Order = {
-        oid,
-        side: order.side === 'B' ? 0 : 1,
-        price: parseFloat(order.limitPx),
-        size: parseFloat(order.sz),
-        timestamp: order.timestamp ?? Date.now(),
-        user: entry.user || order.user || '',
-      };
-      // Remove old order from groups if oid already exists (e.g. re-sent on reconnect)
-      const prev = orders.get(oid);
-      if (prev) removeOrderFromGroups(prev);
-      orders.set(oid, o);
-      addOrderToGroups(o);
-      diffsSinceLastRebuild++;
-    } else if (REMOVE_STATUSES.has(status)) {
-      const existing = orders.get(oid);
-      if (existing) {
-        removeOrderFromGroups(existing);
-        orders.delete(oid);
-        diffsSinceLastRebuild++;
-      }
-    }
-    // Rejected statuses (badAloPxRejected, minTradeNtlRejected, etc.)
-    // don't change the book state — ignore them.
-  }
+/// `fallbackTime` stamps orders that arrive without a timestamp: wall clock when
+/// live, the frame's own time during replay so results stay deterministic.
+/// Returns the number of diffs that changed the book.
+function applyUpdatesFrame(updates: UpdatesPayload, fallbackTime: number): number {
+  frameTouch = engine.touch();
+  frameMid = Number.isFinite(frameTouch.bestBid) && Number.isFinite(frameTouch.bestAsk)
+    ? (frameTouch.bestBid + frameTouch.bestAsk) / 2
+    : 0;
+  return engine.applyUpdates(updates, fallbackTime);
+}
 
+function countDiffs(diffs: number) {
+  diffsSinceLastRebuild += diffs;
   if (diffsSinceLastRebuild > 0) dirty = true;
 }
 
+function clearResyncTimer() {
+  if (resyncTimer !== null) {
+    clearTimeout(resyncTimer);
+    resyncTimer = null;
+  }
+}
+
+function resetStreamHealth() {
+  heightGaps = 0;
+  missedHeights = 0;
+  outOfOrderFrames = 0;
+  resyncs = 0;
+}
+
+/// Once a height is skipped the book is missing diffs and can't be repaired
+/// in place, so ask for a fresh Snapshot. If the server ignores the
+/// resubscribe, fall back to a full reconnect.
+function startResync() {
+  resyncing = true;
+  resyncs++;
+  dirty = true;   // push the counters to the UI even though the book is frozen
+  resubscribe();
+  clearResyncTimer();
+  resyncTimer = setTimeout(() => {
+    resyncTimer = null;
+    if (resyncing) ws?.close();   // onclose schedules the reconnect
+  }, RESYNC_TIMEOUT_MS);
+}
+
+/** Check an Updates frame against the expected height. Returns false to drop it. */
+function acceptUpdateHeight(height: number | undefined): boolean {
+  // No book yet, or waiting for the resync Snapshot: diffs have nothing valid to apply to
+  if (!haveSnapshot || resyncing) return false;
+  if (!height) return true;
+  // The Snapshot carried no height, so the first frame after it sets the baseline
+  if (lastHeight === null) {
+    lastHeight = height;
+    return true;
+  }
+  if (height <= lastHeight) {
+    outOfOrderFrames++;
+    dirty = true;
+    return false;
+  }
+  if (height > lastHeight + 1) {
+    heightGaps++;
+    missedHeights += height - lastHeight - 1;
+    startResync();
+    return false;
+  }
+  lastHeight = height;
+  return true;
+}
+
 function handleWsMessage(event: MessageEvent) {
+  const recvTime = Date.now();
   messagesReceived++;
   let parsed: any;
   try {
@@ -311,13 +296,18 @@ function handleWsMessage(event: MessageEvent) {
 
   if (parsed?.channel === 'l4Book') {
     const data = parsed.data;
+    if (recordingState !== 'idle') recordMessage(event.data as string, recvTime, !!data?.Snapshot);
     if (data?.Snapshot) {
+      haveSnapshot = true;
+      lastHeight = data.Snapshot.height || null;
+      if (lastHeight === null) {
+        diagnostics.record('missingHeight', 0, 'gap detection starts at the next Updates frame');
+      }
+      resyncing = false;
+      clearResyncTimer();
       handleSnapshot(data.Snapshot);
     } else if (data?.Updates) {
-      // Update meta with latest time/height from diff messages
-      if (data.Updates.time) meta.time = data.Updates.time;
-      if (data.Updates.height) meta.height = data.Updates.height;
-      handleUpdates(data.Updates);
+      if (acceptUpdateHeight(data.Updates.height)) countDiffs(applyUpdatesFrame(data.Updates, recvTime));
     }
   }
 }
@@ -325,14 +315,21 @@ function handleWsMessage(event: MessageEvent) {
 function startRebuildInterval() {
   stopRebuildInterval();
   rebuildTimer = setInterval(() => {
-    if (!dirty) return;
-    dirty = false;
-    const result = buildSnapshotView();
-    if (result) {
-      const msg = { type: 'update' as const, ...result };
-      self.postMessage(msg, { transfer: getTransferList(msg) } as any);
-      diffsSinceLastRebuild = 0;
+    if (dirty) {
+      dirty = false;
+      const result = buildSnapshotView();
+      if (result) {
+        const msg = { type: 'update' as const, ...result, trades: takeTrades(), flow: computeFlowSample(result.data, flow.take()) };
+        self.postMessage(msg, { transfer: getTransferList(msg) } as any);
+        diffsSinceLastRebuild = 0;
+      }
     }
+    // Issues can arrive in frames that don't change the book (e.g. unknown statuses)
+    if (diagnostics.changed) postDiagnostics();
+    if (watchedChanged) postOrderHistory();
+    if (lifecycle.changed && performance.now() - lastLifecycleStatsPost >= LIFECYCLE_STATS_MS) postLifecycleStats();
+    if (refills.changed && performance.now() - lastRefillsPost >= LIFECYCLE_STATS_MS) postRefills();
+    if (spoofs.hasPending) postSpoofCandidates();
   }, rebuildIntervalMs);
 }
 
@@ -359,6 +356,13 @@ function scheduleReconnect() {
   reconnectDelay = Math.min(reconnectDelay * 2, 30000);
 }
 
+function resubscribe() {
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+  const subscription = { type: 'l4Book', coin: pendingCoin };
+  ws.send(JSON.stringify({ method: 'unsubscribe', subscription }));
+  ws.send(JSON.stringify({ method: 'subscribe', subscription }));
+}
+
 function connectWs(url: string, coin: string) {
   disconnectWs();
   pendingUrl = url;
@@ -406,7 +410,11 @@ function connectWs(url: string, coin: string) {
 
 function disconnectWs() {
   clearReconnect();
+  clearResyncTimer();
   stopRebuildInterval();
+  haveSnapshot = false;
+  lastHeight = null;
+  resyncing = false;
   if (ws) {
     ws.onopen = null;
     ws.onmessage = null;
@@ -415,209 +423,571 @@ function disconnectWs() {
     ws.close();
     ws = null;
   }
-  orders.clear();
-  clearIncrementalState();
+  engine.clear();
+  pendingTrades = [];
   dirty = false;
 }
 
-// --- File parsing (reuse existing logic) ---
+// --- Recording ---
+
+function postRecordingProgress(error?: string) {
+  self.postMessage({
+    type: 'recording',
+    progress: {
+      state: recordingState,
+      sessionId: recordingSession?.id ?? null,
+      messageCount: recordedMessages,
+      byteCount: recordedBytes,
+      startedAt: recordingSession?.startedAt ?? null,
+      error,
+    },
+  });
+}
+
+async function postRecordingSessions() {
+  try {
+    self.postMessage({ type: 'recordingSessions', sessions: await listSessions() });
+  } catch (err: any) {
+    postRecordingProgress(err?.message ?? 'IndexedDB unavailable');
+  }
+}
+
+/// Append one raw frame as an NDJSON line. The receive timestamp is spliced
+/// into the original text so large payloads are never re-serialized.
+function recordMessage(raw: string, recvTime: number, isSnapshot: boolean) {
+  if (recordingState === 'waiting') {
+    // A session must start from a full book, so drop diffs until the Snapshot
+    if (!isSnapshot) return;
+    recordingState = 'recording';
+  }
+  const body = raw.trim();
+  const line = `{"recvTime":${recvTime},${body.slice(1)}\n`;
+  const bytes = recordEncoder.encode(line).length;
+  recordBuffer.push(line);
+  recordBufferMessages++;
+  recordBufferBytes += bytes;
+  recordedMessages++;
+  recordedBytes += bytes;
+}
+
+function flushRecording(): Promise<void> {
+  if (recordBuffer.length === 0 || !recordingSessionPending) return recordWrites;
+  const text = recordBuffer.join('');
+  const messages = recordBufferMessages;
+  const bytes = recordBufferBytes;
+  const seq = recordSeq++;
+  const pending = recordingSessionPending;
+  recordBuffer = [];
+  recordBufferMessages = 0;
+  recordBufferBytes = 0;
+  recordWrites = recordWrites
+    .then(() => pending)
+    .then((session) => appendChunk(session, seq, text, messages, bytes))
+    .catch((err) => {
+      stopRecordingTimer();
+      recordingState = 'idle';
+      postRecordingProgress(err?.message ?? 'Failed to write recording');
+    });
+  return recordWrites;
+}
+
+function stopRecordingTimer() {
+  if (recordFlushTimer !== null) {
+    clearInterval(recordFlushTimer);
+    recordFlushTimer = null;
+  }
+}
+
+function startRecording() {
+  if (recordingState !== 'idle') return;
+  recordingState = 'waiting';
+  recordBuffer = [];
+  recordBufferMessages = 0;
+  recordBufferBytes = 0;
+  recordSeq = 0;
+  recordedMessages = 0;
+  recordedBytes = 0;
+  recordingSession = null;
+  recordingSessionPending = createSession(pendingCoin, pendingUrl);
+  recordingSessionPending.then(
+    (session) => {
+      recordingSession = session;
+      postRecordingProgress();
+    },
+    (err) => {
+      stopRecordingTimer();
+      recordingState = 'idle';
+      recordingSessionPending = null;
+      postRecordingProgress(err?.message ?? 'IndexedDB unavailable');
+    },
+  );
+  recordFlushTimer = setInterval(() => {
+    flushRecording().then(() => {
+      if (recordingState !== 'idle') postRecordingProgress();
+    });
+  }, RECORD_FLUSH_MS);
+  // Mid-stream start: ask the server for a fresh Snapshot to anchor the session
+  resubscribe();
+  postRecordingProgress();
+}
+
+async function stopRecording() {
+  if (recordingState === 'idle') return;
+  stopRecordingTimer();
+  recordingState = 'idle';
+  const pending = recordingSessionPending;
+  await flushRecording();
+  recordingSessionPending = null;
+  if (pending) {
+    try {
+      const session = await pending;
+      if (session.messageCount === 0) {
+        await deleteSession(session.id);
+      } else {
+        await finishSession(session);
+      }
+    } catch {
+      // creation failure was already reported
+    }
+  }
+  postRecordingProgress();
+  await postRecordingSessions();
+}
+
+async function exportRecording(sessionId: number) {
+  try {
+    const sessions = await listSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) throw new Error(`Recording ${sessionId} not found`);
+    const blob = await readSessionBlob(sessionId);
+    self.postMessage({ type: 'recordingExport', session, blob });
+  } catch (err: any) {
+    postRecordingProgress(err?.message ?? 'Failed to read recording');
+  }
+}
+
+// --- Replay ---
+
+/** Apply one frame to the book; a Snapshot counts as one diff. */
+function applyReplayFrame(frame: ReplayFrame): number {
+  if (frame.data.Snapshot) {
+    engine.applySnapshot(frame.data.Snapshot);
+    return 1;
+  }
+  return frame.data.Updates ? applyUpdatesFrame(frame.data.Updates, frame.time) : 0;
+}
+
+/// Advance the cursor by one frame as playback. Only frames played in sequence
+/// count towards the stream metrics; seeks and the checkpoint pass don't.
+function playReplayFrame() {
+  messagesReceived++;
+  countDiffs(applyReplayFrame(replayFrames![++replayIndex]));
+}
+
+function takeCheckpoint(index: number): ReplayCheckpoint {
+  return {
+    index,
+    book: engine.checkpoint(),
+    lifecycle: lifecycle.checkpoint(),
+    refills: refills.checkpoint(),
+    spoofs: spoofs.checkpoint(),
+  };
+}
+
+function restoreCheckpoint(cp: ReplayCheckpoint) {
+  engine.restore(cp.book);
+  lifecycle.restore(cp.lifecycle);
+  refills.restore(cp.refills);
+  spoofs.restore(cp.spoofs);
+  replayIndex = cp.index;
+}
+
+function getReplayState() {
+  const frames = replayFrames ?? [];
+  const current = frames[Math.max(replayIndex, 0)];
+  return {
+    frameCount: frames.length,
+    index: replayIndex,
+    playing: replayPlaying,
+    speed: replaySpeed,
+    height: engine.meta.height,
+    time: current?.time ?? 0,
+    heightMin: frames[0]?.height ?? 0,
+    heightMax: frames[frames.length - 1]?.height ?? 0,
+    timeMin: frames[0]?.time ?? 0,
+    timeMax: frames[frames.length - 1]?.time ?? 0,
+  };
+}
+
+function postReplayState() {
+  lastReplayStatePost = performance.now();
+  self.postMessage({ type: 'replayState', state: getReplayState() });
+}
 
-function handleParseFile(buffer: ArrayBuffer, fileSize: number) {
+function postReplayUpdate() {
+  dirty = false;
+  const result = buildSnapshotView();
+  if (result) {
+    const msg = { type: 'update' as const, ...result, trades: takeTrades(), flow: computeFlowSample(result.data, flow.take()) };
+    self.postMessage(msg, { transfer: getTransferList(msg) } as any);
+    diffsSinceLastRebuild = 0;
+  }
+  postReplayState();
+}
+
+function parseReplayFile(buffer: ArrayBuffer): ReplayFrame[] {
   const text = new TextDecoder().decode(buffer);
+  const frames: ReplayFrame[] = [];
+  let lineNo = 0;
+  let height = 0;
+  for (const line of text.split('\n')) {
+    lineNo++;
+    if (!line.trim()) continue;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNo}`);
+    }
+    if (parsed?.channel !== undefined && parsed.channel !== 'l4Book') continue;
+    const data = parsed?.data;
+    const body = data?.Snapshot ?? data?.Updates;
+    if (!body) continue;
+    // A session must open with a full book; leading diffs have nothing to apply to
+    if (frames.length === 0 && !data.Snapshot) continue;
+    if (body.height) height = body.height;
+    frames.push({ data, time: parsed.recvTime ?? body.time ?? 0, height });
+  }
+  if (frames.length === 0) throw new Error('No l4Book Snapshot found in session');
+  return frames;
+}
 
-  const t0 = performance.now();
-  let parsed: any;
+function stopReplayTimer() {
+  if (replayTimer !== null) {
+    clearTimeout(replayTimer);
+    replayTimer = null;
+  }
+}
+
+function clearReplay() {
+  stopReplayTimer();
+  replayFrames = null;
+  replayCheckpoints = [];
+  replayIndex = -1;
+  replayPlaying = false;
+}
+
+function handleLoadReplay(buffer: ArrayBuffer) {
+  disconnectWs();
+  clearReplay();
+  resetStreamHealth();
+
+  let frames: ReplayFrame[];
   try {
-    parsed = JSON.parse(text);
-  } catch {
-    self.postMessage({ type: 'fileError', error: 'Invalid JSON' });
+    frames = parseReplayFile(buffer);
+  } catch (err: any) {
+    self.postMessage({ type: 'fileError', error: err.message });
     return;
   }
-  const parseTimeMs = performance.now() - t0;
 
-  const t1 = performance.now();
+  // One full pass to lay down checkpoints so seeks never replay from the start.
+  // Integrity issues are collected on this pass only; seeks re-apply the same frames.
+  // The order panels follow the cursor instead: their state is checkpointed with
+  // the book, so they start empty at frame 0.
+  replayFrames = frames;
+  diagnostics.reset();
+  lifecycle.reset();
+  refills.reset();
+  spoofs.reset();
+  observeBook = true;
+  collectTrades = false;
+  for (let i = 0; i < frames.length; i++) {
+    applyReplayFrame(frames[i]);
+    if (i % CHECKPOINT_INTERVAL === 0) replayCheckpoints.push(takeCheckpoint(i));
+  }
+  observeBook = false;
+  collectTrades = true;
 
-  const snapshot = parsed?.data?.Snapshot;
-  if (!snapshot) {
-    self.postMessage({ type: 'fileError', error: 'Missing data.Snapshot in file' });
+  restoreCheckpoint(replayCheckpoints[0]);
+  messagesReceived = 1;
+  diffsSinceLastRebuild = 0;
+  dirty = false;
+
+  postReplayState();
+  const result = buildSnapshotView();
+  if (result) {
+    const msg = { type: 'snapshot' as const, ...result };
+    self.postMessage(msg, { transfer: getTransferList(msg) } as any);
+  }
+  postDiagnostics();
+  postLifecycleStats();
+  postRefills();
+  postSpoofCandidates(true);
+  startRebuildInterval();
+}
+
+/** Move the book to the state after frames[target], via the nearest checkpoint. */
+function seekReplayIndex(target: number) {
+  if (!replayFrames) return;
+  target = Math.max(0, Math.min(target, replayFrames.length - 1));
+  // Binary search: last checkpoint at or before target
+  let lo = 0;
+  let hi = replayCheckpoints.length - 1;
+  while (lo < hi) {
+    const m = (lo + hi + 1) >> 1;
+    if (replayCheckpoints[m].index <= target) lo = m;
+    else hi = m - 1;
+  }
+  const cp = replayCheckpoints[lo];
+  // Rolling forward from the current position is cheaper when it's past the checkpoint.
+  const jump = !(replayIndex <= target && replayIndex >= cp.index);
+  if (jump) restoreCheckpoint(cp);
+  while (replayIndex < target) applyReplayFrame(replayFrames[++replayIndex]);
+  pendingTrades = [];   // a jump isn't a tape; only frames played in sequence print
+  flow.reset();
+  dirty = true;
+  if (jump) {
+    // The order panels were rewound with the book; replace what they show
+    postLifecycleStats();
+    postRefills();
+    postSpoofCandidates(true);
+    watchedChanged = true;
+  }
+}
+
+function seekReplayHeight(height: number) {
+  if (!replayFrames) return;
+  // Last frame whose height is <= the requested height
+  let lo = 0;
+  let hi = replayFrames.length - 1;
+  while (lo < hi) {
+    const m = (lo + hi + 1) >> 1;
+    if (replayFrames[m].height <= height) lo = m;
+    else hi = m - 1;
+  }
+  seekReplayIndex(lo);
+  resetReplayClock();
+  postReplayUpdate();
+}
+
+function resetReplayClock() {
+  replayClockWall = performance.now();
+  replayClockData = replayFrames?.[Math.max(replayIndex, 0)]?.time ?? 0;
+}
+
+/// Playback runs on a virtual clock: every tick applies all frames whose time has
+/// come, so high speeds batch many frames per tick instead of one per timer.
+function replayTick() {
+  replayTimer = null;
+  if (!replayPlaying || !replayFrames) return;
+
+  const now = performance.now();
+  const dataNow = replayClockData + (now - replayClockWall) * replaySpeed;
+  while (replayIndex < replayFrames.length - 1 && replayFrames[replayIndex + 1].time <= dataNow) {
+    playReplayFrame();
+  }
+
+  if (replayIndex >= replayFrames.length - 1) {
+    replayPlaying = false;
+    postReplayUpdate();
     return;
   }
 
-  // Populate the orders map from the file snapshot
-  orders.clear();
-  const { coin, time, height, levels } = snapshot;
-  meta = { coin, time, height };
-
-  const rawOrders: any[] = (levels as any[][]).flat();
-  for (const raw of rawOrders) {
-    if (raw.isTrigger && raw.triggerCondition !== 'Triggered') continue;
-    const o: Order = {
-      oid: raw.oid,
-      side: raw.side === 'B' ? 0 : 1,
-      price: parseFloat(raw.limitPx),
-      size: parseFloat(raw.sz),
-      timestamp: raw.timestamp,
-      user: raw.user || '',
-    };
-    orders.set(o.oid, o);
-  }
-
-  // Use snapshotWorker-style rank-based brightness for file loads (better visual quality for static data)
-  const orderList = Array.from(orders.values());
-  const orderCount = orderList.length;
-
-  // Aggregate depth
-  const bidMap = new Map<number, number>();
-  const askMap = new Map<number, number>();
-
-  for (const o of orderList) {
-    if (o.side === 0) {
-      bidMap.set(o.price, (bidMap.get(o.price) || 0) + o.size);
-    } else {
-      askMap.set(o.price, (askMap.get(o.price) || 0) + o.size);
-    }
+  // Skip long idle stretches by moving the clock anchor up to the next frame
+  const nextTime = replayFrames[replayIndex + 1].time;
+  let waitMs = (nextTime - dataNow) / replaySpeed;
+  if (waitMs > MAX_REPLAY_GAP_MS) {
+    replayClockWall = now;
+    replayClockData = nextTime - MAX_REPLAY_GAP_MS * replaySpeed;
+    waitMs = MAX_REPLAY_GAP_MS;
   }
+  if (now - lastReplayStatePost >= REPLAY_STATE_THROTTLE_MS) postReplayState();
+  replayTimer = setTimeout(replayTick, Math.max(waitMs, 0));
+}
+
+function playReplay() {
+  if (!replayFrames || replayPlaying) return;
+  if (replayIndex >= replayFrames.length - 1) seekReplayIndex(0);
+  replayPlaying = true;
+  resetReplayClock();
+  postReplayState();
+  replayTick();
+}
+
+function pauseReplay() {
+  if (!replayPlaying) return;
+  replayPlaying = false;
+  stopReplayTimer();
+  postReplayUpdate();
+}
+
+function stepReplay() {
+  if (!replayFrames) return;
+  pauseReplay();
+  if (replayIndex < replayFrames.length - 1) playReplayFrame();
+  postReplayUpdate();
+}
 
-  // Group by price
-  const byPrice = new Map<number, Order[]>();
-  for (const o of orderList) {
-    let group = byPrice.get(o.price);
-    if (!group) { group = []; byPrice.set(o.price, group); }
-    group.push(o);
+function setReplaySpeed(speed: number) {
+  replaySpeed = Math.min(Math.max(speed, 0.25), 50);
+  resetReplayClock();
+  postReplayState();
+}
+
+// --- Snapshot export ---
+
+const EXPORT_BATCH = 1000;   // orders per string part handed to the Blob
+
+function compareBids(a: BookOrder, b: BookOrder) {
+  return b.price - a.price || a.timestamp - b.timestamp;
+}
+
+function compareAsks(a: BookOrder, b: BookOrder) {
+  return a.price - b.price || a.timestamp - b.timestamp;
+}
+
+function serializeSide(side: BookOrder[], parts: string[]) {
+  for (let i = 0; i < side.length; i += EXPORT_BATCH) {
+    const batch = side.slice(i, i + EXPORT_BATCH).map((o) => JSON.stringify(o.raw));
+    parts.push((i > 0 ? ',' : '') + batch.join(','));
   }
+}
 
-  // Tick size
-  const uniquePrices = Array.from(byPrice.keys()).sort((a, b) => a - b);
-  let tickSize = 1;
-  if (uniquePrices.length >= 2) {
-    let minDiff = Infinity;
-    for (let i = 1; i < uniquePrices.length; i++) {
-      const diff = uniquePrices[i] - uniquePrices[i - 1];
-      if (diff > 1e-9 && diff < minDiff) minDiff = diff;
-    }
-    if (minDiff < Infinity) tickSize = Math.round(minDiff * 1e8) / 1e8;
-  }
-
-  // Build heatmap with rank-based brightness
-  const hmPrices = new Float32Array(orderCount);
-  const hmYOffsets = new Float32Array(orderCount);
-  const hmSizes = new Float32Array(orderCount);
-  const hmSides = new Float32Array(orderCount);
-  const hmBrightness = new Float32Array(orderCount);
-  const hmTimestamps = new Float64Array(orderCount);
-  const hmUsers: string[] = new Array(orderCount);
-
-  // Rank-based brightness
-  const rankOrder = orderList
-    .map((o, i) => ({ ts: o.timestamp, i }))
-    .sort((a, b) => a.ts - b.ts);
-  const rankBrightness = new Float32Array(orderCount);
-  const maxRank = orderCount - 1;
-  for (let r = 0; r < orderCount; r++) {
-    rankBrightness[rankOrder[r].i] = maxRank > 0 ? r / maxRank : 0.5;
-  }
-
-  let minTs = Infinity;
-  let maxTs = -Infinity;
-  for (const o of orderList) {
-    if (o.timestamp < minTs) minTs = o.timestamp;
-    if (o.timestamp > maxTs) maxTs = o.timestamp;
-  }
-
-  let idx = 0;
-  let maxCumSize = 0;
-  // Build a mapping from order to its index in orderList for rank lookup
-  const orderIndexMap = new Map<Order, number>();
-  for (let i = 0; i < orderList.length; i++) {
-    orderIndexMap.set(orderList[i], i);
-  }
-
-  for (const [, group] of byPrice) {
-    group.sort((a, b) => a.timestamp - b.timestamp);
-    let cumOffset = 0;
-    for (const o of group) {
-      hmPrices[idx] = o.price;
-      hmYOffsets[idx] = cumOffset;
-      hmSizes[idx] = o.size;
-      hmSides[idx] = o.side;
-      hmBrightness[idx] = rankBrightness[orderIndexMap.get(o)!];
-      hmTimestamps[idx] = o.timestamp;
-      hmUsers[idx] = o.user;
-      cumOffset += o.size;
-      idx++;
-    }
-    if (cumOffset > maxCumSize) maxCumSize = cumOffset;
+/// Serialize the current book back into the exact l4Book Snapshot message shape
+/// that handleParseFile reads, in price-time priority order per side.
+/// Untriggered trigger orders are included so the file reopens with its trigger layer.
+function handleExportSnapshot() {
+  const bids: BookOrder[] = [];
+  const asks: BookOrder[] = [];
+  for (const o of engine.orders()) (o.side === 0 ? bids : asks).push(o);
+  for (const t of engine.triggerOrders()) (t.side === 0 ? bids : asks).push(t);
+  bids.sort(compareBids);
+  asks.sort(compareAsks);
+
+  const { coin, time, height } = engine.meta;
+  const parts: string[] = [
+    `{"channel":"l4Book","data":{"Snapshot":{"coin":${JSON.stringify(coin)},"time":${time},"height":${height},"levels":[[`,
+  ];
+  serializeSide(bids, parts);
+  parts.push('],[');
+  serializeSide(asks, parts);
+  parts.push(']]}}}');
+
+  const blob = new Blob(parts, { type: 'application/json' });
+  self.postMessage({ type: 'snapshotExport', meta: { coin, time, height }, blob });
+}
+
+// --- File parsing ---
+
+const PARSE_PROGRESS_MS = 100;
+
+let parseGeneration = 0;   // bumped per request so a superseded parse stops reading
+
+/// Binary snapshots decode straight into typed arrays — no JSON, no order map.
+/// The worker holds no book afterwards, so JSON snapshot export is unavailable.
+async function handleParseL4Bin(file: Blob, fileSize: number, generation: number) {
+  const t0 = performance.now();
+  let data: SnapshotView;
+  try {
+    data = decodeL4Bin(await file.arrayBuffer());
+  } catch (err: any) {
+    self.postMessage({ type: 'fileError', error: err?.message ?? 'Failed to read .l4bin file' });
+    return;
   }
+  if (generation !== parseGeneration) return;
+  const parseTimeMs = performance.now() - t0;
+
+  const msg = {
+    type: 'fileResult' as const,
+    data,
+    metrics: {
+      format: 'l4bin',
+      fileSizeMB: fileSize / (1024 * 1024),
+      parseTimeMs: Math.round(parseTimeMs * 100) / 100,
+      transformTimeMs: 0,
+      bidCount: data.bids.prices.length,
+      askCount: data.asks.prices.length,
+      orderCount: data.heatmap.count,
+    },
+  };
+  diagnostics.checkCrossed(data);
+  postDiagnostics();
+  self.postMessage(msg, { transfer: getTransferList(msg) } as any);
+}
 
-  // Build depth arrays
-  const bidEntries = Array.from(bidMap.entries()).sort((a, b) => b[0] - a[0]);
-  const askEntries = Array.from(askMap.entries()).sort((a, b) => a[0] - b[0]);
+async function handleParseFile(file: Blob, fileSize: number) {
+  const generation = ++parseGeneration;
+  engine.clear();
 
-  const bidPrices = new Float64Array(bidEntries.length);
-  const bidSizesArr = new Float64Array(bidEntries.length);
-  const bidCumSizes = new Float64Array(bidEntries.length);
-  let cum = 0;
-  for (let i = 0; i < bidEntries.length; i++) {
-    bidPrices[i] = bidEntries[i][0];
-    bidSizesArr[i] = bidEntries[i][1];
-    cum += bidEntries[i][1];
-    bidCumSizes[i] = cum;
+  if (hasL4BinMagic(await file.slice(0, 4).arrayBuffer())) {
+    await handleParseL4Bin(file, fileSize, generation);
+    return;
   }
 
-  const askPricesArr = new Float64Array(askEntries.length);
-  const askSizesArr = new Float64Array(askEntries.length);
-  const askCumSizes = new Float64Array(askEntries.length);
-  cum = 0;
-  for (let i = 0; i < askEntries.length; i++) {
-    askPricesArr[i] = askEntries[i][0];
-    askSizesArr[i] = askEntries[i][1];
-    cum += askEntries[i][1];
-    askCumSizes[i] = cum;
+  const t0 = performance.now();
+  engine.beginSnapshot();
+  const parser = createSnapshotParser(engine.addSnapshotOrder);
+
+  let header: SnapshotHeader;
+  let format = 'json';
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  try {
+    const source = await openSnapshotStream(file);
+    reader = source.stream.getReader();
+    let lastProgress = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (generation !== parseGeneration) {
+        reader.cancel();
+        return;
+      }
+      if (done) break;
+      parser.write(value);
+      if (parser.done) {
+        // NDJSON: only the first line (the snapshot) is needed
+        reader.cancel();
+        break;
+      }
+      const now = performance.now();
+      if (now - lastProgress >= PARSE_PROGRESS_MS) {
+        lastProgress = now;
+        self.postMessage({
+          type: 'fileProgress',
+          progress: { bytesRead: source.bytesRead(), totalBytes: fileSize, ordersParsed: parser.ordersParsed },
+        });
+      }
+    }
+    header = parser.end();
+    format = (parser.done ? 'ndjson' : 'json') + (source.compression === 'gzip' ? '.gz' : source.compression === 'zstd' ? '.zst' : '');
+  } catch (err: any) {
+    reader?.cancel().catch(() => {});
+    engine.clear();
+    self.postMessage({ type: 'fileError', error: err?.message ?? 'Failed to read file' });
+    return;
   }
+  const parseTimeMs = performance.now() - t0;
 
+  const t1 = performance.now();
+  engine.endSnapshot(header);
+  const data = engine.buildView();
   const transformTimeMs = performance.now() - t1;
 
-  const result = {
+  const msg = {
     type: 'fileResult' as const,
-    data: {
-      meta: { coin, time, height },
-      bids: { prices: bidPrices, sizes: bidSizesArr, cumSizes: bidCumSizes },
-      asks: { prices: askPricesArr, sizes: askSizesArr, cumSizes: askCumSizes },
-      heatmap: {
-        prices: hmPrices,
-        yOffsets: hmYOffsets,
-        sizes: hmSizes,
-        sides: hmSides,
-        brightness: hmBrightness,
-        timestamps: hmTimestamps,
-        users: hmUsers,
-        maxCumSize,
-        count: orderCount,
-        timestampMin: minTs,
-        timestampMax: maxTs,
-        tickSize,
-        dataPriceMin: uniquePrices[0] ?? 0,
-        dataPriceMax: uniquePrices[uniquePrices.length - 1] ?? 0,
-      },
-    },
+    data,
     metrics: {
+      format,
       fileSizeMB: fileSize / (1024 * 1024),
       parseTimeMs: Math.round(parseTimeMs * 100) / 100,
       transformTimeMs: Math.round(transformTimeMs * 100) / 100,
-      bidCount: bidEntries.length,
-      askCount: askEntries.length,
-      orderCount,
+      bidCount: data.bids.prices.length,
+      askCount: data.asks.prices.length,
+      orderCount: data.heatmap.count,
     },
   };
-
-  self.postMessage(result, {
-    transfer: [
-      bidPrices.buffer, bidSizesArr.buffer, bidCumSizes.buffer,
-      askPricesArr.buffer, askSizesArr.buffer, askCumSizes.buffer,
-      hmPrices.buffer, hmYOffsets.buffer, hmSizes.buffer,
-      hmSides.buffer, hmBrightness.buffer, hmTimestamps.buffer,
-    ],
-  } as any);
+  diagnostics.checkCrossed(data);
+  postDiagnostics();
+  self.postMessage(msg, { transfer: getTransferList(msg) } as any);
 }
 
 // --- Message handler ---
@@ -626,9 +996,18 @@ self.onmessage = (e: MessageEvent<BookWorkerInMessage>) => {
   const msg = e.data;
   switch (msg.type) {
     case 'connect':
+      clearReplay();
+      resetStreamHealth();
+      observeBook = true;
+      diagnostics.reset();
+      lifecycle.reset();
+      refills.reset();
+      spoofs.reset();
       connectWs(msg.url, msg.coin);
       break;
     case 'disconnect':
+      stopRecording().catch((err) => postRecordingProgress(err?.message ?? 'Failed to stop recording'));
+      clearReplay();
       disconnectWs();
       self.postMessage({ type: 'status', status: 'idle' });
       break;
@@ -637,7 +1016,51 @@ self.onmessage = (e: MessageEvent<BookWorkerInMessage>) => {
       if (rebuildTimer !== null) startRebuildInterval(); // restart with new interval
       break;
     case 'parseFile':
-      handleParseFile(msg.buffer, msg.fileSize);
+      clearReplay();
+      observeBook = true;
+      diagnostics.reset();
+      lifecycle.reset();
+      refills.reset();
+      spoofs.reset();
+      handleParseFile(msg.file, msg.fileSize);
+      break;
+    case 'setRecording':
+      if (msg.enabled) startRecording();
+      else stopRecording().catch((err) => postRecordingProgress(err?.message ?? 'Failed to stop recording'));
+      break;
+    case 'listRecordings':
+      postRecordingSessions();
+      break;
+    case 'exportRecording':
+      exportRecording(msg.sessionId);
+      break;
+    case 'deleteRecording':
+      deleteSession(msg.sessionId).then(postRecordingSessions, postRecordingSessions);
+      break;
+    case 'exportSnapshot':
+      handleExportSnapshot();
+      break;
+    case 'loadReplay':
+      handleLoadReplay(msg.buffer);
+      break;
+    case 'replayPlay':
+      playReplay();
+      break;
+    case 'replayPause':
+      pauseReplay();
+      break;
+    case 'replayStep':
+      stepReplay();
+      break;
+    case 'replaySeek':
+      seekReplayHeight(msg.height);
+      break;
+    case 'replaySetSpeed':
+      setReplaySpeed(msg.speed);
+      break;
+    case 'watchOrder':
+      watchedOid = msg.oid;
+      postOrderHistory();
       break;
   }
 };
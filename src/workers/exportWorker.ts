@@ -0,0 +1,19 @@
+/// Web Worker: turns the on-screen book into CSV so large exports
+/// never block the UI thread.
+
+import type { ExportWorkerInMessage, ExportWorkerOutMessage } from '../lib/types';
+import { ordersCsv, levelsCsv } from '../lib/csvExport';
+
+self.onmessage = (e: MessageEvent<ExportWorkerInMessage>) => {
+  const msg = e.data;
+  let out: ExportWorkerOutMessage;
+  try {
+    const result = msg.type === 'orders'
+      ? ordersCsv(msg.heatmap, msg.priceMin, msg.priceMax)
+      : levelsCsv(msg.bids, msg.asks, msg.tickSize, msg.priceMin, msg.priceMax);
+    out = { type: 'success', blob: result.blob, rows: result.rows };
+  } catch (err: any) {
+    out = { type: 'error', error: err?.message ?? 'Export failed' };
+  }
+  self.postMessage(out);
+};
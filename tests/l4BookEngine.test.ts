@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createL4BookEngine, type EngineIssue, type EngineOrderEvent, type SnapshotPayload, type UpdatesPayload,
+  type WireOrder,
+} from '../src/lib/l4BookEngine';
+import type { SnapshotView, Trade } from '../src/lib/types';
+import session from './fixtures/btc-session.ndjson?raw';
+
+/// Replays a recorded l4Book session (one Snapshot, then Updates at heights
+/// 101–103) through the engine and checks the views it builds.
+
+const T = 1700000000000;   // snapshot block time
+const A = '0xaaaa000000000000000000000000000000000001';
+const B = '0xbbbb000000000000000000000000000000000002';
+const C = '0xcccc000000000000000000000000000000000003';
+
+const frames: { Snapshot?: SnapshotPayload; Updates?: UpdatesPayload }[] = session
+  .split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line).data);
+const snapshot = frames[0].Snapshot!;
+const updates = frames.slice(1).map((f) => f.Updates!);
+
+function load(hooks: Parameters<typeof createL4BookEngine>[0] = {}) {
+  const engine = createL4BookEngine(hooks);
+  engine.applySnapshot(snapshot);
+  return engine;
+}
+
+function applyAll(engine: ReturnType<typeof createL4BookEngine>) {
+  for (const u of updates) engine.applyUpdates(u, u.time);
+}
+
+function side(s: SnapshotView['bids']) {
+  return { prices: Array.from(s.prices), sizes: Array.from(s.sizes), cumSizes: Array.from(s.cumSizes) };
+}
+
+// Heatmap entries in array order, which is the stacking order within each price
+function stacks(view: SnapshotView) {
+  const hm = view.heatmap;
+  return Array.from({ length: hm.count }, (_, i) => ({
+    price: hm.prices[i],
+    yOffset: hm.yOffsets[i],
+    size: hm.sizes[i],
+    side: hm.sides[i],
+    oid: hm.oids[i],
+    user: hm.users[i],
+    timestamp: hm.timestamps[i],
+  }));
+}
+
+describe('snapshot', () => {
+  const view = load().buildView();
+
+  it('carries the snapshot header', () => {
+    expect(view.meta).toEqual({ coin: 'BTC', time: T, height: 100 });
+  });
+
+  it('aggregates levels from the touch outwards', () => {
+    expect(side(view.bids)).toEqual({ prices: [100, 99.5], sizes: [3.5, 4], cumSizes: [3.5, 7.5] });
+    expect(side(view.asks)).toEqual({ prices: [100.5, 101], sizes: [1, 3], cumSizes: [1, 4] });
+  });
+
+  it('stacks each level oldest order first', () => {
+    expect(stacks(view)).toEqual([
+      { price: 100, yOffset: 0, size: 1.5, side: 0, oid: 2, user: B, timestamp: T - 9000 },
+      { price: 100, yOffset: 1.5, size: 2, side: 0, oid: 1, user: A, timestamp: T - 5000 },
+      { price: 99.5, yOffset: 0, size: 4, side: 0, oid: 3, user: A, timestamp: T - 3000 },
+      { price: 100.5, yOffset: 0, size: 1, side: 1, oid: 5, user: B, timestamp: T - 2000 },
+      { price: 101, yOffset: 0, size: 2.5, side: 1, oid: 6, user: C, timestamp: T - 4000 },
+      { price: 101, yOffset: 2.5, size: 0.5, side: 1, oid: 7, user: A, timestamp: T - 1000 },
+    ]);
+    expect(view.heatmap.maxCumSize).toBe(4);
+    expect(view.heatmap.timestampMin).toBe(T - 9000);
+    expect(view.heatmap.timestampMax).toBe(T - 1000);
+    expect(view.heatmap.tickSize).toBe(0.5);
+    expect(view.heatmap.dataPriceMin).toBe(99.5);
+    expect(view.heatmap.dataPriceMax).toBe(101);
+  });
+
+  it('ranks brightness across the whole book', () => {
+    // Timestamps by heatmap row: T-9000, T-5000, T-3000, T-2000, T-4000, T-1000 → ranks 0,1,3,4,2,5 of 5
+    expect(Array.from(view.heatmap.brightness)).toEqual([0, 0.2, 0.6, 0.8, 0.4, 1].map(Math.fround));
+  });
+
+  it('keeps untriggered trigger orders off the book, in the trigger layer', () => {
+    const t = view.triggers!;
+    expect(t.count).toBe(1);
+    expect(Array.from(t.oids)).toEqual([4]);
+    expect(Array.from(t.triggerPrices)).toEqual([101.5]);
+    expect(Array.from(t.limitPrices)).toEqual([101.5]);
+    expect(Array.from(t.sizes)).toEqual([3]);
+    expect(Array.from(t.sides)).toEqual([1]);
+    expect(t.users).toEqual([C]);
+    expect(t.conditions).toEqual(['Price above 101.5']);
+  });
+});
+
+describe('updates', () => {
+  it('applies placements, cancels, fills, triggers and modifications', () => {
+    const engine = load();
+    applyAll(engine);
+    const view = engine.buildView();
+
+    expect(view.meta).toEqual({ coin: 'BTC', time: T + 3000, height: 103 });
+    expect(side(view.bids)).toEqual({ prices: [100, 99], sizes: [2, 9], cumSizes: [2, 11] });
+    expect(Array.from(view.asks.prices)).toEqual([100.5, 101, 101.5]);
+    expect(Array.from(view.asks.sizes)).toEqual([0.4, 2.5, 3]);
+    expect(view.asks.cumSizes[2]).toBeCloseTo(5.9);
+
+    // Levels emptied and refilled (the size reduction at 100.5) move to the end
+    const rows = stacks(view).map(({ price, yOffset, oid }) => ({ price, yOffset, oid }));
+    expect(rows).toEqual([
+      { price: 100, yOffset: 0, oid: 1 },
+      { price: 101, yOffset: 0, oid: 6 },
+      { price: 99, yOffset: 0, oid: 8 },
+      { price: 99, yOffset: 5, oid: 3 },
+      { price: 100.5, yOffset: 0, oid: 5 },
+      { price: 101.5, yOffset: 0, oid: 4 },
+    ]);
+    expect(view.triggers!.count).toBe(0);
+    expect(engine.triggerCount).toBe(0);
+  });
+
+  it('prints only confirmed fills and reports order events in frame order', () => {
+    const trades: Trade[] = [];
+    const events: EngineOrderEvent[] = [];
+    const issues: EngineIssue[] = [];
+    const engine = load({ onTrade: (t) => trades.push(t), onOrderEvent: (e) => events.push(e), onIssue: (i) => issues.push(i) });
+    applyAll(engine);
+
+    expect(trades).toEqual([
+      { time: T + 2000, height: 102, price: 100, size: 1.5, side: 1, maker: B, oid: 2 },
+    ]);
+    expect(events.map((e) => [e.kind, e.order.oid])).toEqual([
+      ['placed', 8], ['canceled', 7], ['sizeReduced', 5],
+      ['placed', 4], ['filled', 2],
+      ['modified', 3],
+    ]);
+    expect(issues.map((i) => [i.kind, i.oid])).toEqual([['unknownRemove', 999]]);
+  });
+
+  it('keeps the timestamps it stamped in raw, so the book round-trips through a snapshot', () => {
+    const engine = load();
+    applyAll(engine);
+    engine.applyUpdates({
+      time: T + 4000,
+      height: 104,
+      order_statuses: [{ user: B, status: 'open', order: { coin: 'BTC', oid: 9, side: 'A', limitPx: '102.0', sz: '1.0' } }],
+    }, T + 4040);
+
+    expect(engine.getOrder(4)!.raw.timestamp).toBe(T + 2000);   // triggered at height 102
+    expect(engine.getOrder(9)!.raw.timestamp).toBe(T + 4040);   // no timestamp on the wire
+    const levels: WireOrder[][] = [[], []];
+    for (const o of engine.orders()) levels[o.side].push(o.raw);
+    const reloaded = createL4BookEngine();
+    reloaded.applySnapshot({ ...engine.meta, levels });
+    // Same orders with the same timestamps; level order follows insertion, so compare by oid
+    const byOid = (view: SnapshotView) => stacks(view).sort((x, y) => x.oid - y.oid);
+    expect(byOid(reloaded.buildView())).toEqual(byOid(engine.buildView()));
+  });
+
+  it('flags an open that repeats a resting order, not one that modifies it', () => {
+    const issues: EngineIssue[] = [];
+    const engine = load({ onIssue: (i) => issues.push(i) });
+    const open = (sz: string): UpdatesPayload => ({
+      time: T + 1000,
+      height: 101,
+      order_statuses: [{ user: A, status: 'open', order: { coin: 'BTC', oid: 1, side: 'B', limitPx: '100.0', sz, timestamp: T - 5000 } }],
+    });
+
+    engine.applyUpdates(open('2.5'), T + 1000);
+    expect(issues).toEqual([]);
+    engine.applyUpdates(open('2.5'), T + 1000);
+    expect(issues.map((i) => [i.kind, i.oid])).toEqual([['duplicateOpen', 1]]);
+    expect(engine.levelSize(0, 100)).toBe(4);
+  });
+});
+
+describe('checkpoint / restore', () => {
+  it('rewinds to the checkpointed book and replays to the same result', () => {
+    const engine = load();
+    const initial = engine.buildView();
+    const cp = engine.checkpoint();
+
+    applyAll(engine);
+    const final = engine.buildView();
+
+    engine.restore(cp);
+    expect(engine.buildView()).toEqual(initial);
+    expect(engine.triggerCount).toBe(1);
+
+    applyAll(engine);
+    expect(engine.buildView()).toEqual(final);
+  });
+
+  it('is unaffected by changes made after it was taken', () => {
+    const engine = load();
+    applyAll(engine);
+    const cp = engine.checkpoint();
+    const view = engine.buildView();
+
+    engine.applySnapshot(snapshot);
+    engine.restore(cp);
+    expect(engine.buildView()).toEqual(view);
+  });
+});
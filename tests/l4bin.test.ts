@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createL4BookEngine } from '../src/lib/l4BookEngine';
+import { decodeL4Bin, encodeL4Bin, L4BIN_VERSION } from '../src/lib/l4bin';
+import session from './fixtures/btc-session.ndjson?raw';
+
+/// Round-trips the fixture session's snapshot book through the .l4bin writer and reader.
+
+const snapshot = JSON.parse(session.split('\n')[0]).data.Snapshot;
+
+function snapshotView() {
+  const engine = createL4BookEngine();
+  engine.applySnapshot(snapshot);
+  return engine.buildView();
+}
+
+describe('.l4bin', () => {
+  it('writes the current format version', () => {
+    const buffer = encodeL4Bin(snapshotView());
+    expect(new DataView(buffer).getUint16(4, true)).toBe(L4BIN_VERSION);
+  });
+
+  it('round-trips the book and the trigger layer', () => {
+    const view = snapshotView();
+    expect(view.triggers!.count).toBe(1);
+    expect(decodeL4Bin(encodeL4Bin(view))).toEqual(view);
+  });
+
+  it('writes an empty trigger layer for views without one', () => {
+    const { triggers: _, ...view } = snapshotView();
+    expect(decodeL4Bin(encodeL4Bin(view)).triggers).toEqual({
+      triggerPrices: new Float64Array(0),
+      limitPrices: new Float64Array(0),
+      sizes: new Float64Array(0),
+      sides: new Float32Array(0),
+      oids: new Float64Array(0),
+      users: [],
+      conditions: [],
+      count: 0,
+    });
+  });
+
+  it('rejects a corrupted payload', () => {
+    const bytes = new Uint8Array(encodeL4Bin(snapshotView()));
+    bytes[bytes.length - 1] ^= 0xff;
+    expect(() => decodeL4Bin(bytes.buffer)).toThrow('checksum mismatch');
+  });
+});